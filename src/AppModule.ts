@@ -4,8 +4,17 @@ import { ConfigModule } from '@nestjs/config';
 import LinearTrackerBotConfig from './config/LinearBotConfig.js';
 import LinearTrackerBot from './services/LinearBotService.js';
 import AIService from './services/AIService.js';
+import DigestService from './services/DigestService.js';
+import DocumentService from './services/DocumentService.js';
+import LinearClient from './services/LinearClient.js';
+import LinearWebhookService from './services/LinearWebhookService.js';
+import RoleStore from './services/RoleStore.js';
+import StaleTicketService from './services/StaleTicketService.js';
+import UserMappingStore from './services/UserMappingStore.js';
 import { LinearWebhookController } from './controller/LinearWebhookController.js';
 import { RedisModule } from './redis/redisModule.js';
+import { LlmModule } from './llm/llmModule.js';
+import { SttModule } from './stt/sttModule.js';
 
 @Module({
   imports: [
@@ -13,9 +22,11 @@ import { RedisModule } from './redis/redisModule.js';
        isGlobal: true,
       validate: (unsafeConfig) => LinearTrackerBotConfig.parse(unsafeConfig),
     }),
-    RedisModule
+    RedisModule,
+    LlmModule,
+    SttModule,
   ],
   controllers: [LinearWebhookController],
-  providers: [AIService, LinearTrackerBot],
+  providers: [LinearClient, UserMappingStore, RoleStore, AIService, DocumentService, LinearTrackerBot, LinearWebhookService, DigestService, StaleTicketService],
 })
 export default class AppModule {}
@@ -11,12 +11,58 @@ const LinearTrackerBotConfig = z.object({
   TELEGRAM_ALLOWED_USERNAMES: z.string().default('Sandy0209,NBMSacha,NBMXyeu,sol_knowz'),
   TELEGRAM_ADMIN_USERNAME: z.string().default('Flouflof'),
   TELEGRAM_ADMIN_CHAT_ID: z.string().optional().default(''),
+  ADMIN_API_TOKEN: z.string().optional().default(''),
+  // How long the Undo button works after a ticket is cancelled or deleted
+  UNDO_WINDOW_SECONDS: z.coerce.number().int().positive().default(300),
   IS_HAWK: z
     .string()
     .optional()
     .transform((val) => (val?.toLowerCase() === 'true'))
     .default(() => false),
-  OPENAI_API_KEY: z.string(),
+  // Create requests the AI is less sure about than this are shown as an editable draft first (chats can override with /drafts)
+  DRAFT_CONFIDENCE_THRESHOLD: z.coerce.number().min(0).max(1).default(0.8),
+  // Chat messages kept for AI context and /summarize, and how long after the last message (chats can override with /history)
+  CHAT_HISTORY_SIZE: z.coerce.number().int().min(1).max(500).default(20),
+  CHAT_HISTORY_TTL_SECONDS: z.coerce.number().int().positive().default(3600),
+  // When and in which timezone chats that turn on /digest get their morning digest, unless they pick their own
+  DIGEST_DEFAULT_TIME: z
+    .string()
+    .regex(/^([01]?\d|2[0-3]):[0-5]\d$/)
+    .default('09:00'),
+  DIGEST_DEFAULT_TIMEZONE: z.string().default('UTC'),
+  // Nudge the assignee when a ticket sits in a state longer than the first duration, tell the admin chat after the second
+  // e.g. "In Review=2d/4d,To QA=2d/4d" (chats can override with /stale)
+  STALE_RULES: z.string().optional().default('In Review=2d/4d,To QA=2d/4d'),
+  STALE_CHECK_INTERVAL_MINUTES: z.coerce.number().int().positive().default(60),
+  // Look for similar open issues before creating one: off, Linear text search only, or search + AI check
+  DUPLICATE_DETECTION: z.enum(['off', 'search', 'ai']).default('search'),
+  // LLM used to parse messages: openai (or any compatible server), anthropic, or an offline stub
+  LLM_PROVIDER: z.enum(['openai', 'anthropic', 'stub']).default('openai'),
+  LLM_BASE_URL: z.string().optional().default(''),
+  LLM_MODEL: z.string().optional().default(''),
+  LLM_API_KEY: z.string().optional().default(''),
+  LLM_VISION: z
+    .string()
+    .optional()
+    .transform((val) => val?.toLowerCase() !== 'false'),
+  OPENAI_API_KEY: z.string().optional().default(''),
+  // Speech-to-text for voice and video notes: openai (or a compatible local Whisper server), an offline stub, or off
+  STT_PROVIDER: z.enum(['openai', 'stub', 'off']).default('openai'),
+  STT_BASE_URL: z.string().optional().default(''),
+  STT_MODEL: z.string().optional().default(''),
+  STT_API_KEY: z.string().optional().default(''),
+  // Language hint such as "en" or "fr", detected from the audio when empty
+  STT_LANGUAGE: z.string().optional().default(''),
+  // What the stub provider "hears" in every recording
+  STT_STUB_TRANSCRIPT: z.string().optional().default(''),
+  // Larger documents (logs, PDFs...) are neither read nor attached to tickets
+  MAX_DOCUMENT_BYTES: z.coerce
+    .number()
+    .int()
+    .positive()
+    .default(5 * 1024 * 1024),
+  // Longer voice and video notes are not transcribed
+  MAX_VOICE_NOTE_SECONDS: z.coerce.number().int().positive().default(300),
 });
 type LinearTrackerBotConfig = z.infer<typeof LinearTrackerBotConfig>;
 
@@ -0,0 +1,56 @@
+// Role-based permissions for bot commands, AI actions and inline buttons
+// Roles are ordered: each role can do everything the roles before it can
+
+export type Role = 'viewer' | 'reporter' | 'member' | 'admin';
+
+export const ROLES: Role[] = ['viewer', 'reporter', 'member', 'admin'];
+
+// One entry per parseCommand action, plus the non-AI operations
+export type BotPermission =
+  | 'view'
+  | 'create'
+  | 'comment'
+  | 'edit'
+  | 'assign'
+  | 'status'
+  | 'cancel'
+  | 'delete'
+  | 'manage';
+
+// Lowest role allowed to perform each operation
+export const PERMISSION_MATRIX: Record<BotPermission, Role> = {
+  view: 'viewer',
+  create: 'reporter',
+  comment: 'reporter',
+  edit: 'member',
+  assign: 'member',
+  status: 'member',
+  cancel: 'member',
+  delete: 'admin',
+  manage: 'admin',
+};
+
+// Used in denial messages: "You need the member role to <label>"
+export const PERMISSION_LABELS: Record<BotPermission, string> = {
+  view: 'use this bot',
+  create: 'create tickets',
+  comment: 'comment on tickets',
+  edit: 'edit tickets',
+  assign: 'assign tickets',
+  status: 'change ticket status',
+  cancel: 'cancel tickets',
+  delete: 'delete tickets',
+  manage: 'manage the bot',
+};
+
+export function isRole(value: string): value is Role {
+  return (ROLES as string[]).includes(value);
+}
+
+export function hasPermission(
+  role: Role | null,
+  permission: BotPermission,
+): boolean {
+  if (!role) return false;
+  return ROLES.indexOf(role) >= ROLES.indexOf(PERMISSION_MATRIX[permission]);
+}
@@ -1,5 +1,6 @@
 // Mapping between Telegram usernames and Linear users
 // Format: telegramUsername (without @) -> { linearName, linearEmail }
+// Mappings live in Redis (see UserMappingStore); this list only seeds an empty store
 
 export interface UserMapping {
   telegramUsername: string;
@@ -84,10 +85,10 @@ export const USER_MAPPINGS: UserMapping[] = [
 ];
 
 // Helper function to find Linear user by any identifier (telegram username, name, alias)
-export function findLinearUserByIdentifier(identifier: string): UserMapping | null {
+export function findLinearUserByIdentifier(mappings: UserMapping[], identifier: string): UserMapping | null {
   const normalizedId = identifier.toLowerCase().replace('@', '');
   
-  return USER_MAPPINGS.find((user) => {
+  return mappings.find((user) => {
     return (
       user.telegramUsername.toLowerCase() === normalizedId ||
       user.linearName.toLowerCase() === normalizedId ||
@@ -98,13 +99,12 @@ export function findLinearUserByIdentifier(identifier: string): UserMapping | nu
 }
 
 // Get all aliases for AI prompt
-export function getAllUserAliases(): string[] {
+export function getAllUserAliases(mappings: UserMapping[]): string[] {
   const aliases: string[] = [];
-  for (const user of USER_MAPPINGS) {
+  for (const user of mappings) {
     aliases.push(user.telegramUsername);
     aliases.push(user.linearName);
     aliases.push(...user.aliases);
   }
   return [...new Set(aliases)];
 }
-
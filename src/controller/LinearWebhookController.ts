@@ -1,53 +1,63 @@
-import { Body, Controller, Inject, Post, UseGuards } from '@nestjs/common';
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Headers,
+  Inject,
+  NotFoundException,
+  Param,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { AdminTokenGuard } from 'src/guard/AdminTokenGuard';
 import { LinearAuthGuard } from 'src/guard/LinearAuthGuard';
-import LinearTrackerBot from 'src/services/LinearBotService';
-
-interface LinearWebhookPayload {
-  action: string;
-  type?: string;
-  // biome-ignore lint/suspicious/noExplicitAny: <any>
-  data: any;
-}
+import LinearWebhookService, { type LinearWebhookPayload } from 'src/services/LinearWebhookService';
 
 @Controller()
 export class LinearWebhookController {
-  private lastProcessedState = new Map<string, string>();
   constructor(
-    @Inject(LinearTrackerBot) private readonly linearTrackerBot: LinearTrackerBot,
+    @Inject(LinearWebhookService) private readonly webhookService: LinearWebhookService,
   ) { }
 
   @Post('linear-webhook')
   @UseGuards(LinearAuthGuard)
-  handle(@Body() data: LinearWebhookPayload) {
+  handle(@Body() data: LinearWebhookPayload, @Headers('linear-delivery') deliveryHeader?: string) {
 
     console.log('Webhook received:', data);
-    setImmediate(async () => {
-      try {
-        if (data.action === 'update') {
-          const { id, identifier, state } = data.data;
-          const stateName = state?.name;
-
-          if (!id || !identifier || !stateName) return;
-          if (this.lastProcessedState.get(identifier) === stateName) return;
-          this.lastProcessedState.set(identifier, stateName);
+    const deliveryId = this.webhookService.resolveDeliveryId(deliveryHeader, data);
 
-          await this.linearTrackerBot.updateIssueStatuss(id, stateName);
-        }
-
-        if (data.action === 'create' && data.type === 'Comment') {
-          const { body, issue, user, createdAt } = data.data;
-          if (body && issue?.id && user?.name) {
-            await this.linearTrackerBot.updateIssueStatuss(issue.id, '', {
-              text: body,
-              author: user.name,
-              date: createdAt,
-            });
-          };
-        }
-      } catch (err) {
+    // Answer Linear right away; failures end up in the dead-letter store
+    setImmediate(() => {
+      this.webhookService.handleDelivery(deliveryId, data).catch((err) => {
         console.error('Error processing Linear webhook:', err);
-      }
+      });
     });
     return 'ok';
   }
+
+  @Get('linear-webhook/dead-letters')
+  @UseGuards(AdminTokenGuard)
+  listDeadLetters() {
+    return this.webhookService.listDeadLetters();
+  }
+
+  @Post('linear-webhook/dead-letters/:id/replay')
+  @UseGuards(AdminTokenGuard)
+  async replayDeadLetter(@Param('id') id: string) {
+    const result = await this.webhookService.replayDeadLetter(id);
+    if (!result.found) {
+      throw new NotFoundException(`Dead letter ${id} not found`);
+    }
+    return result;
+  }
+
+  @Delete('linear-webhook/dead-letters/:id')
+  @UseGuards(AdminTokenGuard)
+  async discardDeadLetter(@Param('id') id: string) {
+    if (!(await this.webhookService.discardDeadLetter(id))) {
+      throw new NotFoundException(`Dead letter ${id} not found`);
+    }
+    return { discarded: true };
+  }
 }
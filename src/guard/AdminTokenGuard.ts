@@ -0,0 +1,35 @@
+import * as crypto from 'node:crypto';
+import {
+  type CanActivate,
+  type ExecutionContext,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+
+@Injectable()
+export class AdminTokenGuard implements CanActivate {
+  canActivate(context: ExecutionContext): boolean {
+    const req = context
+      .switchToHttp()
+      .getRequest<{ headers: Record<string, string | undefined> }>();
+
+    const secret = process.env.ADMIN_API_TOKEN;
+    if (!secret) {
+      throw new UnauthorizedException('ADMIN_API_TOKEN not set');
+    }
+
+    const token =
+      req.headers['authorization']?.replace(/^Bearer\s+/i, '') ?? '';
+    const expected = Buffer.from(secret);
+    const given = Buffer.from(token);
+
+    if (
+      given.length !== expected.length ||
+      !crypto.timingSafeEqual(new Uint8Array(given), new Uint8Array(expected))
+    ) {
+      throw new UnauthorizedException('Invalid admin token');
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,85 @@
+import axios from 'axios';
+import type {
+  LlmCompletionRequest,
+  LlmMessage,
+  LlmProvider,
+  LlmProviderOptions,
+} from './LlmProvider';
+
+const ANTHROPIC_VERSION = '2023-06-01';
+// The Messages API requires max_tokens
+const DEFAULT_MAX_TOKENS = 1000;
+
+type AnthropicContent =
+  | string
+  | Array<
+      | { type: 'text'; text: string }
+      | {
+          type: 'image';
+          source: { type: 'base64'; media_type: 'image/jpeg'; data: string };
+        }
+    >;
+
+/**
+ * Anthropic-style Messages API: system prompt outside the message list, content blocks for images
+ */
+export default class AnthropicProvider implements LlmProvider {
+  readonly name = 'anthropic';
+  readonly model: string;
+  readonly supportsVision: boolean;
+
+  constructor(private readonly options: LlmProviderOptions) {
+    this.model = options.model;
+    this.supportsVision = options.supportsVision;
+  }
+
+  async complete(request: LlmCompletionRequest): Promise<string | null> {
+    const system = request.messages
+      .filter((m) => m.role === 'system')
+      .map((m) => m.content)
+      .join('\n\n');
+
+    const res = await axios.post<{
+      content?: { type: string; text?: string }[];
+    }>(
+      `${this.options.baseUrl.replace(/\/$/, '')}/v1/messages`,
+      {
+        model: this.model,
+        system: system || undefined,
+        messages: request.messages
+          .filter((m) => m.role !== 'system')
+          .map((m) => ({ role: m.role, content: this.toContent(m) })),
+        temperature: request.temperature,
+        max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+      },
+      {
+        headers: {
+          'x-api-key': this.options.apiKey,
+          'anthropic-version': ANTHROPIC_VERSION,
+          'Content-Type': 'application/json',
+        },
+      },
+    );
+
+    const text = (res.data.content ?? [])
+      .filter((block) => block.type === 'text')
+      .map((block) => block.text ?? '')
+      .join('');
+    return text || null;
+  }
+
+  private toContent(message: LlmMessage): AnthropicContent {
+    if (!message.images?.length || !this.supportsVision) return message.content;
+    return [
+      ...message.images.map((image) => ({
+        type: 'image' as const,
+        source: {
+          type: 'base64' as const,
+          media_type: 'image/jpeg' as const,
+          data: image,
+        },
+      })),
+      { type: 'text', text: message.content },
+    ];
+  }
+}
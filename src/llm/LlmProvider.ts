@@ -0,0 +1,30 @@
+export interface LlmMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+  // Base64-encoded JPEGs, only sent to providers that support vision
+  images?: string[];
+}
+
+export interface LlmCompletionRequest {
+  messages: LlmMessage[];
+  temperature?: number;
+  maxTokens?: number;
+}
+
+/**
+ * A chat model the bot can send prompts to.
+ * Implementations throw on transport or API errors and return null when the model sends no text.
+ */
+export interface LlmProvider {
+  readonly name: string;
+  readonly model: string;
+  readonly supportsVision: boolean;
+  complete(request: LlmCompletionRequest): Promise<string | null>;
+}
+
+export interface LlmProviderOptions {
+  baseUrl: string;
+  model: string;
+  apiKey: string;
+  supportsVision: boolean;
+}
@@ -0,0 +1,66 @@
+import axios from 'axios';
+import type {
+  LlmCompletionRequest,
+  LlmMessage,
+  LlmProvider,
+  LlmProviderOptions,
+} from './LlmProvider';
+
+type OpenAIContent =
+  | string
+  | Array<
+      | { type: 'text'; text: string }
+      | { type: 'image_url'; image_url: { url: string } }
+    >;
+
+/**
+ * Chat completions API as served by OpenAI and compatible servers (Ollama, vLLM, LM Studio...)
+ */
+export default class OpenAICompatibleProvider implements LlmProvider {
+  readonly name = 'openai';
+  readonly model: string;
+  readonly supportsVision: boolean;
+
+  constructor(private readonly options: LlmProviderOptions) {
+    this.model = options.model;
+    this.supportsVision = options.supportsVision;
+  }
+
+  async complete(request: LlmCompletionRequest): Promise<string | null> {
+    const res = await axios.post<{
+      choices?: { message?: { content?: string | null } }[];
+    }>(
+      `${this.options.baseUrl.replace(/\/$/, '')}/chat/completions`,
+      {
+        model: this.model,
+        messages: request.messages.map((m) => ({
+          role: m.role,
+          content: this.toContent(m),
+        })),
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+      },
+      {
+        headers: {
+          ...(this.options.apiKey
+            ? { Authorization: `Bearer ${this.options.apiKey}` }
+            : {}),
+          'Content-Type': 'application/json',
+        },
+      },
+    );
+
+    return res.data.choices?.[0]?.message?.content || null;
+  }
+
+  private toContent(message: LlmMessage): OpenAIContent {
+    if (!message.images?.length || !this.supportsVision) return message.content;
+    return [
+      { type: 'text', text: message.content },
+      ...message.images.map((image) => ({
+        type: 'image_url' as const,
+        image_url: { url: `data:image/jpeg;base64,${image}` },
+      })),
+    ];
+  }
+}
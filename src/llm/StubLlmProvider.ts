@@ -0,0 +1,81 @@
+import type { LlmCompletionRequest, LlmProvider } from './LlmProvider';
+
+const ACTION_KEYWORDS: [RegExp, string][] = [
+  [/\bdelete\b/i, 'delete'],
+  [/\bcancel\b/i, 'cancel'],
+  [/\bassign\b/i, 'assign'],
+  [/\b(status|move|set)\b/i, 'status'],
+  [/\bedit\b/i, 'edit'],
+];
+
+// Start of the /summarize and duplicate check system prompts in AIService
+const SUMMARY_PROMPT = 'You turn a Telegram discussion into a Linear ticket';
+const DUPLICATE_CHECK_PROMPT =
+  'You check whether a new Linear ticket duplicates';
+
+/**
+ * Offline provider for local development and tests. Answers the /summarize prompt with a summary
+ * of the transcript, the duplicate check with no duplicates, and every other prompt with a command worked out from keywords and ticket
+ * identifiers in the last user message.
+ */
+export default class StubLlmProvider implements LlmProvider {
+  readonly name = 'stub';
+  readonly model = 'stub';
+  readonly supportsVision = false;
+
+  complete(request: LlmCompletionRequest): Promise<string | null> {
+    const message =
+      [...request.messages].reverse().find((m) => m.role === 'user')?.content ??
+      '';
+    const system =
+      request.messages.find((m) => m.role === 'system')?.content ?? '';
+    if (system.startsWith(SUMMARY_PROMPT)) {
+      return Promise.resolve(JSON.stringify(this.summarize(message)));
+    }
+    if (system.startsWith(DUPLICATE_CHECK_PROMPT)) {
+      return Promise.resolve(JSON.stringify({ duplicates: [] }));
+    }
+
+    // Only look at the request itself, not the chat history appended after it
+    const text = message.split('\n')[0].trim();
+    const ticketIdentifier = text.match(/\b[A-Z]+-\d+\b/)?.[0] ?? null;
+    const action = ticketIdentifier
+      ? (ACTION_KEYWORDS.find(([pattern]) => pattern.test(text))?.[1] ?? 'edit')
+      : 'create';
+    const title = text.slice(0, 100) || 'Untitled ticket';
+
+    return Promise.resolve(
+      JSON.stringify({
+        action,
+        ticketIdentifier,
+        assigneeName: null,
+        newStatus: null,
+        title: action === 'create' ? title : null,
+        description: action === 'create' ? text : null,
+        editField: action === 'edit' ? 'menu' : null,
+        newValue: null,
+        confidence: text ? 0.9 : 0,
+      }),
+    );
+  }
+
+  /**
+   * Transcript lines look like "[2024-01-01 10:00] alice: text"
+   */
+  private summarize(transcript: string) {
+    const lines = transcript
+      .split('\n')
+      .map((line) => line.match(/^\[[^\]]*\]\s*([^:]+):\s*(.*)$/))
+      .filter((match): match is RegExpMatchArray => match !== null);
+    const authors = [...new Set(lines.map(([, author]) => author.trim()))];
+    const texts = lines.map(([, , text]) => text.trim()).filter(Boolean);
+
+    return {
+      title: texts[0]?.slice(0, 100) || 'Discussion summary',
+      summary: `Discussion between ${authors.join(', ') || 'the chat'} (${lines.length} message(s)).`,
+      decisions: [],
+      openQuestions: texts.filter((text) => text.endsWith('?')),
+      actionItems: [],
+    };
+  }
+}
@@ -0,0 +1,53 @@
+import { Global, Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import type LinearTrackerBotConfig from 'src/config/LinearBotConfig';
+import AnthropicProvider from './AnthropicProvider';
+import type { LlmProvider } from './LlmProvider';
+import OpenAICompatibleProvider from './OpenAICompatibleProvider';
+import StubLlmProvider from './StubLlmProvider';
+
+const DEFAULTS = {
+  openai: { baseUrl: 'https://api.openai.com/v1', model: 'gpt-4o-mini' },
+  anthropic: {
+    baseUrl: 'https://api.anthropic.com',
+    model: 'claude-3-5-haiku-latest',
+  },
+};
+
+@Global()
+@Module({
+  providers: [
+    {
+      provide: 'LLM_PROVIDER',
+      inject: [ConfigService],
+      useFactory: (
+        config: ConfigService<LinearTrackerBotConfig, true>,
+      ): LlmProvider => {
+        const kind =
+          config.get<LinearTrackerBotConfig['LLM_PROVIDER']>('LLM_PROVIDER');
+        if (kind === 'stub') {
+          console.log('LLM provider: stub');
+          return new StubLlmProvider();
+        }
+
+        const options = {
+          baseUrl: config.get<string>('LLM_BASE_URL') || DEFAULTS[kind].baseUrl,
+          model: config.get<string>('LLM_MODEL') || DEFAULTS[kind].model,
+          apiKey:
+            config.get<string>('LLM_API_KEY') ||
+            (kind === 'openai' ? config.get<string>('OPENAI_API_KEY') : ''),
+          supportsVision: config.get<boolean>('LLM_VISION'),
+        };
+        console.log(
+          `LLM provider: ${kind} (${options.model}, vision ${options.supportsVision ? 'on' : 'off'})`,
+        );
+
+        return kind === 'anthropic'
+          ? new AnthropicProvider(options)
+          : new OpenAICompatibleProvider(options);
+      },
+    },
+  ],
+  exports: ['LLM_PROVIDER'],
+})
+export class LlmModule {}
@@ -1,37 +1,215 @@
 import { Inject, Injectable } from '@nestjs/common';
-import { ConfigService } from '@nestjs/config';
-import axios from 'axios';
-import type LinearTrackerBotConfig from 'src/config/LinearBotConfig';
-import { USER_MAPPINGS, findLinearUserByIdentifier } from 'src/config/userMappings';
+import { z } from 'zod';
+import type { LlmMessage, LlmProvider } from 'src/llm/LlmProvider';
+import LinearClient, { type LinearUser } from './LinearClient';
+import UserMappingStore from './UserMappingStore';
 
-interface LinearUser {
-  id: string;
+// Linear team the chat files tickets in, so prompts use its key and workflow states
+export interface TeamPromptContext {
   name: string;
-  displayName: string;
-  email: string;
+  key: string;
+  states: string[];
+  labels: string[];
 }
 
-interface ParsedTicketRequest {
-  title: string;
-  description: string;
-  assigneeName: string | null;
-  confidence: number;
-}
-
-type ActionType = 'create' | 'edit' | 'cancel' | 'delete' | 'assign' | 'status';
-type EditField = 'title' | 'description' | 'assignee' | 'status' | 'menu' | null;
-
-interface ParsedCommand {
-  action: ActionType;
-  ticketIdentifier: string | null; // e.g., "MOB-1234" or null for create
-  assigneeName: string | null;
-  newStatus: string | null;
-  title: string | null;
-  description: string | null;
-  editField: EditField; // What field to edit (for edit action)
-  newValue: string | null; // New value for the field being edited
-  confidence: number;
-}
+// Models sometimes answer "null", "undefined" or "" instead of a JSON null
+const optionalText = z.preprocess(
+  (value) =>
+    value === undefined ||
+    value === 'null' ||
+    value === 'undefined' ||
+    value === ''
+      ? null
+      : value,
+  z.string().nullable(),
+);
+
+// Same "null"-as-text problem for the optional non-string fields
+const nullish = (value: unknown) =>
+  value === undefined || value === 'null' || value === '' ? null : value;
+
+const ParsedTicketRequestSchema = z.object({
+  title: z.string().trim().min(1, 'A ticket title is required').max(200),
+  description: z.string().default(''),
+  assigneeName: optionalText,
+  confidence: z.number().min(0).max(1),
+});
+
+const ParsedCommandSchema = z
+  .object({
+    action: z.enum(['create', 'edit', 'cancel', 'delete', 'assign', 'status']),
+    ticketIdentifier: optionalText.refine(
+      (id) => id === null || /^[A-Za-z]+-\d+$/.test(id),
+      {
+        message: 'Ticket identifiers look like MOB-1234',
+      },
+    ), // e.g., "MOB-1234" or null for create
+    assigneeName: optionalText,
+    newStatus: optionalText,
+    title: optionalText,
+    description: optionalText,
+    editField: z.preprocess(
+      (value) => (value === undefined || value === 'null' ? null : value),
+      z
+        .enum([
+          'title',
+          'description',
+          'assignee',
+          'status',
+          'priority',
+          'labels',
+          'estimate',
+          'dueDate',
+          'menu',
+        ])
+        .nullable(),
+    ), // What field to edit (for edit action)
+    newValue: optionalText, // New value for the field being edited
+    // Linear priority: 0 = none, 1 = urgent, 2 = high, 3 = medium, 4 = low
+    priority: z
+      .preprocess(nullish, z.number().int().min(0).max(4).nullable())
+      .default(null),
+    labels: z.preprocess(
+      (value) => nullish(value) ?? [],
+      z.array(z.string().trim().min(1)),
+    ),
+    estimate: z
+      .preprocess(nullish, z.number().min(0).max(100).nullable())
+      .default(null),
+    dueDate: z
+      .preprocess(
+        nullish,
+        z
+          .string()
+          .regex(/^\d{4}-\d{2}-\d{2}$/, 'Due dates must be YYYY-MM-DD')
+          .nullable(),
+      )
+      .default(null),
+    confidence: z.number().min(0).max(1),
+  })
+  .superRefine((command, ctx) => {
+    // Low-confidence answers are reported as "could not understand" instead
+    if (command.confidence < 0.5) return;
+    if (command.action === 'create' && !command.title) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['title'],
+        message: 'A ticket title is required to create a ticket',
+      });
+    }
+    if (command.action === 'assign' && !command.assigneeName) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['assigneeName'],
+        message: 'Say who the ticket should be assigned to',
+      });
+    }
+    if (command.action === 'status' && !command.newStatus) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['newStatus'],
+        message: 'Say which status the ticket should move to',
+      });
+    }
+    if (
+      command.action === 'edit' &&
+      command.editField === 'priority' &&
+      command.priority === null
+    ) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['priority'],
+        message: 'Say which priority the ticket should have',
+      });
+    }
+    if (
+      command.action === 'edit' &&
+      command.editField === 'labels' &&
+      !command.labels.length
+    ) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['labels'],
+        message: 'Say which labels the ticket should have',
+      });
+    }
+  });
+
+// Most messages hold one action; this keeps a confused model from producing dozens
+const MAX_ACTIONS_PER_MESSAGE = 5;
+
+const ParsedCommandListSchema = z.preprocess(
+  // Accept a bare command object from models that ignore the "actions" wrapper
+  (value) =>
+    value &&
+    typeof value === 'object' &&
+    !('actions' in value) &&
+    'action' in value
+      ? { actions: [value] }
+      : value,
+  z.object({
+    actions: z
+      .array(ParsedCommandSchema)
+      .min(1, 'List at least one action')
+      .max(
+        MAX_ACTIONS_PER_MESSAGE,
+        `List at most ${MAX_ACTIONS_PER_MESSAGE} actions`,
+      ),
+  }),
+);
+
+const DuplicateCheckSchema = z.object({
+  duplicates: z.array(z.string()),
+});
+
+// Enough for one meeting's worth of follow-ups; /summarize can split them into tickets
+const MAX_ACTION_ITEMS = 10;
+
+const DiscussionSummarySchema = z.object({
+  title: z.string().trim().min(1, 'A ticket title is required').max(200),
+  summary: z.string().trim().min(1, 'Summarize the discussion'),
+  decisions: z.preprocess(
+    (value) => nullish(value) ?? [],
+    z.array(z.string().trim().min(1)),
+  ),
+  openQuestions: z.preprocess(
+    (value) => nullish(value) ?? [],
+    z.array(z.string().trim().min(1)),
+  ),
+  actionItems: z.preprocess(
+    (value) => nullish(value) ?? [],
+    z
+      .array(
+        z.object({
+          title: z.string().trim().min(1, 'Action items need a title').max(200),
+          description: optionalText,
+          assigneeName: optionalText,
+        }),
+      )
+      .max(MAX_ACTION_ITEMS, `List at most ${MAX_ACTION_ITEMS} action items`),
+  ),
+});
+
+type ParsedTicketRequest = z.infer<typeof ParsedTicketRequestSchema>;
+export type ParsedCommand = z.infer<typeof ParsedCommandSchema>;
+export type DiscussionSummary = z.infer<typeof DiscussionSummarySchema>;
+
+/**
+ * Why an AI call produced no usable result:
+ * - unavailable: the provider could not be reached or returned an error
+ * - empty: the model returned no text
+ * - invalid_json: the answer was not JSON, even after a repair attempt
+ * - invalid_output: the JSON did not match the schema, even after a repair attempt
+ */
+export type AIFailureReason =
+  | 'unavailable'
+  | 'empty'
+  | 'invalid_json'
+  | 'invalid_output';
+
+export type AIResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; reason: AIFailureReason; issues: string[] };
 
 @Injectable()
 export default class AIService {
@@ -40,7 +218,9 @@ export default class AIService {
   private readonly USERS_CACHE_TTL = 5 * 60 * 1000; // 5 minutes
 
   constructor(
-    @Inject(ConfigService) private readonly config: ConfigService<LinearTrackerBotConfig, true>,
+    @Inject(LinearClient) private readonly linearClient: LinearClient,
+    @Inject(UserMappingStore) private readonly userMappings: UserMappingStore,
+    @Inject('LLM_PROVIDER') private readonly llm: LlmProvider,
   ) {}
 
   private async fetchLinearUsers(): Promise<LinearUser[]> {
@@ -50,23 +230,8 @@ export default class AIService {
     }
 
     try {
-      const query = `{ users { nodes { id name displayName email } } }`;
-      const res = await axios.post(
-        this.config.get('LINEAR_API_URL'),
-        { query },
-        {
-          headers: {
-            Authorization: this.config.get('LINEAR_API_KEY'),
-            'Content-Type': 'application/json',
-          },
-        },
-      );
-
-      const users = res.data.data?.users?.nodes as LinearUser[] | undefined;
-      if (users) {
-        this.linearUsers = users;
-        this.usersLastFetched = now;
-      }
+      this.linearUsers = await this.linearClient.getUsers();
+      this.usersLastFetched = now;
       return this.linearUsers;
     } catch (err) {
       console.error('Failed to fetch Linear users:', err);
@@ -74,13 +239,20 @@ export default class AIService {
     }
   }
 
-  async parseTicketRequest(message: string): Promise<ParsedTicketRequest | null> {
+  async parseTicketRequest(
+    message: string,
+  ): Promise<AIResult<ParsedTicketRequest>> {
     await this.fetchLinearUsers();
+    await this.userMappings.refresh();
     
     // Build user list with all aliases for better matching
-    const userListForAI = USER_MAPPINGS.map((u) => 
-      `- ${u.linearName} (aliases: ${u.aliases.join(', ')}, telegram: @${u.telegramUsername})`
-    ).join('\n');
+    const userListForAI = this.userMappings
+      .all()
+      .map(
+        (u) =>
+          `- ${u.linearName} (aliases: ${u.aliases.join(', ')}, telegram: @${u.telegramUsername})`,
+      )
+      .join('\n');
 
     const systemPrompt = `You are an expert technical writer creating Linear tickets from Telegram conversations.
     
@@ -139,52 +311,104 @@ CONTEXT HANDLING:
 - If someone says "create a ticket for this", look at the chat history to understand what "this" refers to.
 - Include relevant quotes or details from the conversation in the description.`;
 
-    try {
-      const res = await axios.post(
-        'https://api.openai.com/v1/chat/completions',
-        {
-          model: 'gpt-4o-mini',
-          messages: [
-            { role: 'system', content: systemPrompt },
-            { role: 'user', content: message },
-          ],
-          temperature: 0.3,
-          max_tokens: 1000,
-        },
-        {
-          headers: {
-            Authorization: `Bearer ${this.config.get('OPENAI_API_KEY')}`,
-            'Content-Type': 'application/json',
-          },
-        },
-      );
+    const result = await this.completeJson(
+      ParsedTicketRequestSchema,
+      'ticket request',
+      [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: message },
+      ],
+    );
+    if (!result.ok) return result;
+
+    // Validate and match assignee
+    const parsed = result.value;
+    if (parsed.assigneeName) {
+      const matchedUser = this.findUserByName(parsed.assigneeName);
+      parsed.assigneeName = matchedUser ? matchedUser.name : null;
+    }
 
-      const content = res.data.choices?.[0]?.message?.content;
-      if (!content) return null;
+    return result;
+  }
 
-      const cleanedContent = this.cleanJsonResponse(content);
-      const parsed = JSON.parse(cleanedContent) as ParsedTicketRequest;
-      
-      // Validate and match assignee
-      if (parsed.assigneeName) {
-        const matchedUser = this.findUserByName(parsed.assigneeName);
-        if (matchedUser) {
-          parsed.assigneeName = matchedUser.name;
-        } else {
-          parsed.assigneeName = null;
-        }
+  /**
+   * Ask the model for JSON matching `schema`. An answer that fails to parse or validate is
+   * sent back once with the errors so the model can correct it.
+   */
+  private async completeJson<T>(
+    schema: z.ZodType<T>,
+    label: string,
+    messages: LlmMessage[],
+  ): Promise<AIResult<T>> {
+    let attempt = 0;
+    for (;;) {
+      let content: string | null;
+      try {
+        content = await this.llm.complete({
+          messages,
+          temperature: 0.3,
+          maxTokens: 1000,
+        });
+      } catch (err: unknown) {
+        const error = err as {
+          response?: { status?: number; data?: unknown };
+          message?: string;
+        };
+        console.error(`Failed to parse ${label} with AI:`, {
+          status: error.response?.status,
+          data: error.response?.data,
+          message: error.message,
+        });
+        return { ok: false, reason: 'unavailable', issues: [] };
       }
+      if (!content) return { ok: false, reason: 'empty', issues: [] };
 
-      return parsed;
-    } catch (err: unknown) {
-      const error = err as { response?: { status?: number; data?: unknown }; message?: string };
-      console.error('Failed to parse ticket request with AI:', {
-        status: error.response?.status,
-        data: error.response?.data,
-        message: error.message,
-      });
-      return null;
+      const result = this.validateJson(schema, content);
+      if (result.ok) return result;
+
+      console.warn(
+        `[AIService] Invalid ${label} from AI (attempt ${attempt + 1}):`,
+        result.issues,
+        content,
+      );
+      if (attempt++ >= 1) return result;
+
+      messages = [
+        ...messages,
+        { role: 'assistant', content },
+        {
+          role: 'user',
+          content:
+            `Your previous answer could not be used:\n${result.issues.map((i) => `- ${i}`).join('\n')}\n\n` +
+            'Reply again with only the corrected JSON object, no other text.',
+        },
+      ];
+    }
+  }
+
+  private validateJson<T>(schema: z.ZodType<T>, content: string): AIResult<T> {
+    let json: unknown;
+    try {
+      json = JSON.parse(this.cleanJsonResponse(content));
+    } catch (err) {
+      return {
+        ok: false,
+        reason: 'invalid_json',
+        issues: [`The answer is not valid JSON (${(err as Error).message})`],
+      };
     }
+
+    const parsed = schema.safeParse(json);
+    if (parsed.success) return { ok: true, value: parsed.data };
+    return {
+      ok: false,
+      reason: 'invalid_output',
+      issues: parsed.error.issues.map((issue) =>
+        issue.path.length
+          ? `${issue.path.join('.')}: ${issue.message}`
+          : issue.message,
+      ),
+    };
   }
 
   /**
@@ -247,7 +471,8 @@ CONTEXT HANDLING:
     console.log(`[AIService] Available Linear users:`, this.linearUsers.map(u => ({ name: u.name, email: u.email })));
     
     // First, try to find via our custom mapping
-    const mapping = findLinearUserByIdentifier(normalizedName);
+    const mapping =
+      this.userMappings.findLinearUserByIdentifier(normalizedName);
     console.log(`[AIService] Mapping found:`, mapping);
     
     if (mapping) {
@@ -326,8 +551,101 @@ CONTEXT HANDLING:
     return directMatch;
   }
 
+  /**
+   * Ask the model which candidate issues describe the same problem as a new ticket
+   * Returns the identifiers of the likely duplicates
+   */
+  async findDuplicates(
+    ticket: { title: string; description: string },
+    candidates: { identifier: string; title: string }[],
+  ): Promise<AIResult<string[]>> {
+    const systemPrompt = `You check whether a new Linear ticket duplicates existing open tickets.
+
+A duplicate describes the SAME problem or the SAME piece of work, even if worded differently.
+Tickets that only share a topic, a component or some keywords are NOT duplicates.
+
+Existing tickets:
+${candidates.map((c) => `- ${c.identifier}: ${c.title}`).join('\n')}
+
+Respond ONLY with valid JSON in this exact format:
+{
+  "duplicates": ["MOB-1234", ...]
+}
+Use an empty list when none of them is a duplicate. Only use identifiers from the list above.`;
+
+    const result = await this.completeJson(
+      DuplicateCheckSchema,
+      'duplicate check',
+      [
+        { role: 'system', content: systemPrompt },
+        {
+          role: 'user',
+          content: `New ticket: ${ticket.title}\n\n${ticket.description}`,
+        },
+      ],
+    );
+    if (!result.ok) return result;
+
+    const known = new Set(candidates.map((c) => c.identifier.toUpperCase()));
+    return {
+      ok: true,
+      value: result.value.duplicates
+        .map((d) => d.toUpperCase())
+        .filter((d) => known.has(d)),
+    };
+  }
+
+  /**
+   * Summarize a stretch of chat into a ticket: what was discussed, decided, left open and who does what
+   * `transcript` has one "[time] author: text" line per message, oldest first
+   */
+  async summarizeDiscussion(
+    transcript: string,
+    team?: TeamPromptContext,
+  ): Promise<AIResult<DiscussionSummary>> {
+    await this.userMappings.refresh();
+    const userListForAI = this.userMappings
+      .all()
+      .map(
+        (u) =>
+          `- ${u.linearName} (aliases: ${u.aliases.join(', ')}, telegram: @${u.telegramUsername})`,
+      )
+      .join('\n');
+
+    const systemPrompt = `You turn a Telegram discussion into a Linear ticket${team ? ` for the ${team.name} team` : ''}.
+
+Write for someone who did not read the discussion:
+- "title": short imperative ticket title for the overall topic (max 80 chars)
+- "summary": 2-5 sentences on what was discussed and why it matters
+- "decisions": what the participants agreed on
+- "openQuestions": what is still undecided or needs an answer
+- "actionItems": concrete follow-ups, each with a short title, an optional description, and the person who
+  took it on or was asked to do it (null when nobody was named)
+
+Only include what the messages actually say. Use empty lists when there is nothing for a section.
+Write in the language of the discussion.
+
+Team members (use the first name listed for assigneeName):
+${userListForAI}
+
+Respond ONLY with valid JSON in this exact format:
+{
+  "title": "...",
+  "summary": "...",
+  "decisions": ["..."],
+  "openQuestions": ["..."],
+  "actionItems": [{ "title": "...", "description": "..." or null, "assigneeName": "..." or null }]
+}`;
+
+    return this.completeJson(DiscussionSummarySchema, 'discussion summary', [
+      { role: 'system', content: systemPrompt },
+      { role: 'user', content: transcript },
+    ]);
+  }
+
   async getUserIdByName(name: string): Promise<string | null> {
     await this.fetchLinearUsers();
+    await this.userMappings.refresh();
     console.log(`[AIService] getUserIdByName called with: "${name}"`);
     console.log(`[AIService] Available Linear users:`, this.linearUsers.map(u => ({ name: u.name, email: u.email, id: u.id })));
     
@@ -339,7 +657,7 @@ CONTEXT HANDLING:
 
   // Get display name for Telegram message (from our mapping)
   getDisplayNameForUser(linearName: string): string {
-    const mapping = findLinearUserByIdentifier(linearName);
+    const mapping = this.userMappings.findLinearUserByIdentifier(linearName);
     return mapping?.linearName ?? linearName;
   }
 
@@ -347,20 +665,46 @@ CONTEXT HANDLING:
     return this.linearUsers;
   }
 
-  async parseCommand(message: string, recentTickets: string[], imageBase64: string | null = null): Promise<ParsedCommand | null> {
+  /**
+   * Parse a message into the ordered list of actions it asks for
+   */
+  async parseCommands(
+    message: string,
+    recentTickets: string[],
+    // Base64 JPEGs, several when the message was an album
+    images: string[] = [],
+    team?: TeamPromptContext,
+  ): Promise<AIResult<ParsedCommand[]>> {
     await this.fetchLinearUsers();
-    
-    const userListForAI = USER_MAPPINGS.map((u) => 
-      `- ${u.linearName} (aliases: ${u.aliases.join(', ')}, telegram: @${u.telegramUsername})`
-    ).join('\n');
+    await this.userMappings.refresh();
+
+    const userListForAI = this.userMappings
+      .all()
+      .map(
+        (u) =>
+          `- ${u.linearName} (aliases: ${u.aliases.join(', ')}, telegram: @${u.telegramUsername})`,
+      )
+      .join('\n');
+
+    // Models without vision only get told an image was there, so they don't invent its content
+    if (images.length && !this.llm.supportsVision) {
+      console.log(
+        `[AIService] ${this.llm.name} (${this.llm.model}) has no vision support, ignoring ${images.length} attached image(s)`,
+      );
+      message += `\n\n[${images.length > 1 ? `${images.length} images were` : 'An image was'} attached but could not be analyzed]`;
+      images = [];
+    }
 
     const ticketContext = recentTickets.length > 0 
       ? `Recent tickets mentioned in this chat:\n${recentTickets.join('\n')}`
       : 'No recent tickets in context.';
 
-    const systemPrompt = `You are an expert technical writer that parses Telegram messages to understand what action the user wants to perform on Linear tickets.
+    const now = new Date();
+    const today = `${now.toISOString().slice(0, 10)} (${now.toLocaleDateString('en-US', { weekday: 'long', timeZone: 'UTC' })})`;
+
+    const systemPrompt = `You are an expert technical writer that parses Telegram messages to understand what actions the user wants to perform on Linear tickets.
 
-${imageBase64 ? 'An image has been attached to this message. Analyze the image and include relevant details in the ticket description. Describe what you see in the image that is relevant to the ticket.' : ''}
+${images.length ? `${images.length > 1 ? `${images.length} images have` : 'An image has'} been attached to this message. Analyze the image${images.length > 1 ? 's' : ''} and include relevant details in the ticket description. Describe what you see in the image${images.length > 1 ? 's' : ''} that is relevant to the ticket. The images themselves are added to the ticket separately.` : ''}
 
 Available actions:
 - "create": Create a new ticket (USE THIS when user wants to CREATE/MAKE a NEW ticket)
@@ -392,23 +736,46 @@ Examples showing the logic:
 Available team members for assignment:
 ${userListForAI}
 
-Available statuses: Todo, In Progress, In Review, Done, Cancelled
-
+Available statuses: ${team?.states.length ? team.states.join(', ') : 'Todo, In Progress, In Review, Done, Cancelled'}
+${team ? `\nTickets in this chat belong to the Linear team "${team.name}". Their identifiers start with "${team.key}-" (e.g. ${team.key}-1234), but identifiers from other teams are valid too.\n` : ''}
 ${ticketContext}
 
 Respond ONLY with valid JSON in this exact format:
 {
-  "action": "create" | "edit" | "cancel" | "delete" | "assign" | "status",
-  "ticketIdentifier": "MOB-1234 or null",
-  "assigneeName": "linearName or null",
-  "newStatus": "status name or null",
-  "title": "ticket title for create action or null",
-  "description": "ticket description for create action or null",
-  "editField": "title" | "description" | "assignee" | "status" | "menu" | null,
-  "newValue": "the new value for the field being edited or null",
-  "confidence": 0.0 to 1.0
+  "actions": [
+    {
+      "action": "create" | "edit" | "cancel" | "delete" | "assign" | "status",
+      "ticketIdentifier": "MOB-1234 or null",
+      "assigneeName": "linearName or null",
+      "newStatus": "status name or null",
+      "title": "ticket title for create action or null",
+      "description": "ticket description for create action or null",
+      "editField": "title" | "description" | "assignee" | "status" | "priority" | "labels" | "estimate" | "dueDate" | "menu" | null,
+      "newValue": "the new value for the field being edited or null",
+      "priority": 0 | 1 | 2 | 3 | 4 | null,
+      "labels": ["label name", ...],
+      "estimate": number or null,
+      "dueDate": "YYYY-MM-DD or null",
+      "confidence": 0.0 to 1.0
+    }
+  ]
 }
 
+=== PRIORITY, LABELS, ESTIMATE, DUE DATE ===
+
+Set these on "create", and on "edit" when the user changes them (set editField to the field name). Leave them null / [] when not mentioned.
+- priority: 1 = urgent ("urgent", "asap", "P0", "critical", "blocker"), 2 = high ("high", "P1", "important"), 3 = medium ("medium", "normal", "P2"), 4 = low ("low", "P3", "whenever"), 0 = explicitly no priority
+- labels: pick from the team's labels when one matches what the user says ("frontend bug" → "Frontend", "Bug"). Available labels: ${team?.labels.length ? team.labels.join(', ') : 'unknown, use the words the user says'}
+- estimate: story points as a number ("3 points", "3pts", "estimate 5" → 3, 3, 5)
+- dueDate: resolve relative dates from today, ${today} ("by Friday" → the coming Friday, "end of month" → last day of this month)
+
+=== MULTIPLE ACTIONS ===
+
+- Most messages ask for ONE action: return a list with a single entry
+- If the message asks for several things, return one entry per action, in the order they were asked (at most ${MAX_ACTIONS_PER_MESSAGE})
+- Example: "create a ticket for flo to fix the login bug and move MOB-120 to Done" → two entries: a "create" for florent, then a "status" for MOB-120 with newStatus "Done"
+- Never split one ticket into several "create" entries unless the user clearly asks for several tickets
+
 === CRITICAL RULES FOR "create" ACTION ===
 
 TITLE:
@@ -504,72 +871,42 @@ HAS ticket ID = MODIFY EXISTING:
 - "change MOB-567 status to Done" → status (has MOB-567)
 - "cancel MOB-890" → cancel (has MOB-890)`;
 
-    try {
-      // Build user message content (with optional image)
-      type MessageContent = string | Array<{ type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } }>;
-      let userContent: MessageContent = message;
-      
-      if (imageBase64) {
-        userContent = [
-          { type: 'text', text: message },
-          { type: 'image_url', image_url: { url: `data:image/jpeg;base64,${imageBase64}` } },
-        ];
-      }
-
-      const res = await axios.post(
-        'https://api.openai.com/v1/chat/completions',
-        {
-          model: 'gpt-4o-mini',
-          messages: [
-            { role: 'system', content: systemPrompt },
-            { role: 'user', content: userContent },
-          ],
-          temperature: 0.3,
-          max_tokens: 1000,
-        },
-        {
-          headers: {
-            Authorization: `Bearer ${this.config.get('OPENAI_API_KEY')}`,
-            'Content-Type': 'application/json',
-          },
-        },
+    const result = await this.completeJson(ParsedCommandListSchema, 'command', [
+      { role: 'system', content: systemPrompt },
+      {
+        role: 'user',
+        content: message,
+        images: images.length ? images : undefined,
+      },
+    ]);
+    if (!result.ok) return result;
+
+    for (const parsed of result.value.actions) {
+      console.log(
+        `[AIService] parseCommands - AI returned ${parsed.action} with assigneeName: "${parsed.assigneeName}"`,
       );
 
-      const content = res.data.choices?.[0]?.message?.content;
-      if (!content) return null;
-
-      const cleanedContent = this.cleanJsonResponse(content);
-      const parsed = JSON.parse(cleanedContent) as ParsedCommand;
-      
-      // Fix AI returning string "null" instead of actual null
-      if (parsed.assigneeName === 'null' || parsed.assigneeName === 'undefined' || parsed.assigneeName === '') {
-        parsed.assigneeName = null;
-      }
-      
-      console.log(`[AIService] parseCommand - AI returned assigneeName: "${parsed.assigneeName}"`);
-      
       // Validate and match assignee if present
       if (parsed.assigneeName) {
         const matchedUser = this.findUserByName(parsed.assigneeName);
-        console.log(`[AIService] parseCommand - matchedUser:`, matchedUser ? { name: matchedUser.name, id: matchedUser.id } : null);
+        console.log(
+          `[AIService] parseCommands - matchedUser:`,
+          matchedUser ? { name: matchedUser.name, id: matchedUser.id } : null,
+        );
         if (matchedUser) {
           parsed.assigneeName = matchedUser.name;
-          console.log(`[AIService] parseCommand - Updated assigneeName to: "${parsed.assigneeName}"`);
+          console.log(
+            `[AIService] parseCommands - Updated assigneeName to: "${parsed.assigneeName}"`,
+          );
         } else {
-          console.log(`[AIService] parseCommand - No match found, keeping original: "${parsed.assigneeName}"`);
+          console.log(
+            `[AIService] parseCommands - No match found, keeping original: "${parsed.assigneeName}"`,
+          );
         }
       }
-
-      return parsed;
-    } catch (err: unknown) {
-      const error = err as { response?: { status?: number; data?: unknown }; message?: string };
-      console.error('Failed to parse command with AI:', {
-        status: error.response?.status,
-        data: error.response?.data,
-        message: error.message,
-      });
-      return null;
     }
+
+    return { ok: true, value: result.value.actions };
   }
 }
 
@@ -0,0 +1,348 @@
+import {
+  forwardRef,
+  Inject,
+  Injectable,
+  type OnModuleDestroy,
+  type OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import type Redis from 'ioredis';
+import type LinearTrackerBotConfig from 'src/config/LinearBotConfig';
+import LinearClient, { type LinearIssueSnapshot } from './LinearClient';
+import LinearTrackerBot, { type IssueStatusChange } from './LinearBotService';
+
+export interface DigestSettings {
+  enabled: boolean;
+  // HH:MM in the chat's timezone
+  time: string;
+  timezone: string;
+}
+
+// Chats that opted in, so the scheduler does not have to scan every chat
+const DIGEST_CHATS_KEY = 'digest:chats';
+const TICK_INTERVAL_MS = 60 * 1000;
+// A digest missed by this much (restart, slow tick) still goes out; later ones wait for the next day
+const CATCH_UP_MINUTES = 30;
+// Run markers only need to outlive the day they are for, in any timezone
+const RUN_MARKER_TTL_SECONDS = 2 * 24 * 60 * 60;
+// Lines per digest section, the rest is counted
+const MAX_SECTION_ITEMS = 15;
+
+const TIME_PATTERN = /^([01]?\d|2[0-3]):([0-5]\d)$/;
+const BLOCKED_OR_REVIEW = /block|review|hold|waiting/i;
+
+/**
+ * Morning digest of yesterday's ticket activity, posted to chats that opt in with /digest.
+ * Every replica ticks once a minute; a Redis marker per chat and day makes sure only one posts.
+ */
+@Injectable()
+export default class DigestService implements OnModuleInit, OnModuleDestroy {
+  private timer?: NodeJS.Timeout;
+  private ticking = false;
+
+  constructor(
+    @Inject(ConfigService)
+    private readonly config: ConfigService<LinearTrackerBotConfig, true>,
+    @Inject('REDIS') private readonly redis: Redis,
+    @Inject(LinearClient) private readonly linearClient: LinearClient,
+    @Inject(forwardRef(() => LinearTrackerBot))
+    private readonly linearTrackerBot: LinearTrackerBot,
+  ) {}
+
+  onModuleInit() {
+    this.timer = setInterval(() => {
+      this.tick().catch((err) => {
+        console.error('Failed to run digest scheduler:', err);
+      });
+    }, TICK_INTERVAL_MS);
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.timer);
+  }
+
+  async getSettings(chatId: number): Promise<DigestSettings> {
+    const stored = await this.redis.hgetall(this.settingsKey(chatId));
+    return {
+      enabled: stored.enabled === '1',
+      time: stored.time || this.config.get<string>('DIGEST_DEFAULT_TIME'),
+      timezone:
+        stored.timezone || this.config.get<string>('DIGEST_DEFAULT_TIMEZONE'),
+    };
+  }
+
+  async updateSettings(
+    chatId: number,
+    changes: Partial<DigestSettings>,
+  ): Promise<DigestSettings> {
+    const fields: Record<string, string> = {};
+    if (changes.enabled !== undefined) {
+      fields.enabled = changes.enabled ? '1' : '0';
+    }
+    if (changes.time) fields.time = changes.time;
+    if (changes.timezone) fields.timezone = changes.timezone;
+    await this.redis.hset(this.settingsKey(chatId), fields);
+
+    if (changes.enabled === true) {
+      await this.redis.sadd(DIGEST_CHATS_KEY, String(chatId));
+    } else if (changes.enabled === false) {
+      await this.redis.srem(DIGEST_CHATS_KEY, String(chatId));
+    }
+    return this.getSettings(chatId);
+  }
+
+  /**
+   * "9:05" -> "09:05", null when not a time of day
+   */
+  parseTime(value: string): string | null {
+    const match = TIME_PATTERN.exec(value.trim());
+    return match ? `${match[1].padStart(2, '0')}:${match[2]}` : null;
+  }
+
+  isValidTimezone(timezone: string): boolean {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Post the digest of every opted-in chat whose digest time has come and that has not had one today
+   */
+  private async tick(): Promise<void> {
+    if (this.ticking) return;
+    this.ticking = true;
+    try {
+      const chatIds = await this.redis.smembers(DIGEST_CHATS_KEY);
+      for (const chatId of chatIds.map(Number)) {
+        try {
+          await this.runForChat(chatId);
+        } catch (err) {
+          console.error(`Failed to post digest to chat ${chatId}:`, err);
+        }
+      }
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  private async runForChat(chatId: number): Promise<void> {
+    const settings = await this.getSettings(chatId);
+    if (!settings.enabled) return;
+
+    const now = this.localTime(new Date(), settings.timezone);
+    const [hours, minutes] = settings.time.split(':').map(Number);
+    const scheduled = hours * 60 + minutes;
+    // Wraps around midnight, so a 23:45 digest can still go out at 00:05
+    const late = (now.minutes - scheduled + 24 * 60) % (24 * 60);
+    if (late > CATCH_UP_MINUTES) return;
+    // The day the digest was due, which is yesterday when catching up after midnight
+    const runDate =
+      now.minutes < scheduled ? this.previousDay(now.date) : now.date;
+
+    if (!(await this.redis.scard(`chat:${chatId}:issues`))) return;
+
+    // First replica to set the marker posts, the others skip this chat until tomorrow
+    const marker = `digest:run:${chatId}:${runDate}`;
+    const claimed = await this.redis.set(
+      marker,
+      new Date().toISOString(),
+      'EX',
+      RUN_MARKER_TTL_SECONDS,
+      'NX',
+    );
+    if (!claimed) return;
+
+    try {
+      const digest = await this.buildDigest(chatId, settings.timezone, runDate);
+      if (digest) {
+        await this.linearTrackerBot.postDigest(chatId, digest);
+      }
+    } catch (err) {
+      // Let the next tick retry while still within the catch-up window
+      await this.redis.del(marker);
+      throw err;
+    }
+  }
+
+  /**
+   * Activity on the day before `today` (YYYY-MM-DD in the given timezone, defaults to the current date)
+   * for the chat's tickets, or null when there is nothing to report.
+   * Status moves and comments come from the issue:<id> hashes, everything else from Linear.
+   */
+  async buildDigest(
+    chatId: number,
+    timezone: string,
+    today = this.localTime(new Date(), timezone).date,
+  ): Promise<string | null> {
+    const issueIds = await this.redis.smembers(`chat:${chatId}:issues`);
+    if (!issueIds.length) return null;
+
+    const yesterday = this.previousDay(today);
+    const isYesterday = (timestamp: string | undefined) =>
+      !!timestamp &&
+      this.localTime(new Date(timestamp), timezone).date === yesterday;
+
+    const [stored, current] = await Promise.all([
+      Promise.all(issueIds.map((id) => this.redis.hgetall(`issue:${id}`))),
+      this.linearClient.getIssuesById(issueIds),
+    ]);
+
+    const moved: string[] = [];
+    const discussed: string[] = [];
+    for (const data of stored) {
+      if (!data.identifier) continue;
+      const link = this.issueLink(data.identifier, data.title || '');
+
+      const moves = this.parseJsonArray<IssueStatusChange>(
+        data.statusHistory,
+      ).filter((m) => isYesterday(m.changedAt));
+      if (moves.length) {
+        const from = moves[0].from ?? 'none';
+        const to = moves[moves.length - 1].to ?? 'none';
+        const actors = [
+          ...new Set(moves.map((m) => m.actor).filter(Boolean)),
+        ] as string[];
+        moved.push(
+          `${link} — ${this.escapeHtml(from)} → <b>${this.escapeHtml(to)}</b>` +
+            (actors.length
+              ? ` <i>(${this.escapeHtml(actors.join(', '))})</i>`
+              : ''),
+        );
+      }
+
+      const comments = this.parseJsonArray<{ createdAt: string }>(
+        data.comments,
+      ).filter((c) => isYesterday(c.createdAt));
+      if (comments.length) {
+        discussed.push(`${link} — 💬 ${comments.length}`);
+      }
+    }
+
+    const created: string[] = [];
+    const blocked: string[] = [];
+    const inProgress = new Map<string, string[]>();
+    for (const issue of this.sortByIdentifier(current)) {
+      const link = this.issueLink(issue.identifier, issue.title);
+      const assignee = issue.assignee?.name ?? 'Unassigned';
+
+      if (isYesterday(issue.createdAt)) {
+        created.push(`${link} — <i>${this.escapeHtml(assignee)}</i>`);
+      }
+
+      const closed = ['completed', 'canceled'].includes(issue.state.type);
+      if (!closed && BLOCKED_OR_REVIEW.test(issue.state.name)) {
+        blocked.push(
+          `${link} — ${this.escapeHtml(issue.state.name)} · <i>${this.escapeHtml(assignee)}</i>`,
+        );
+      } else if (issue.state.type === 'started') {
+        inProgress.set(assignee, [...(inProgress.get(assignee) ?? []), link]);
+      }
+    }
+
+    const sections = [
+      this.formatSection('🔀 Moved yesterday', moved),
+      this.formatSection('🆕 Created yesterday', created),
+      this.formatSection('💬 Discussed yesterday', discussed),
+      this.formatSection('🚧 Blocked or in review', blocked),
+      this.formatSection(
+        '🔄 In progress',
+        [...inProgress.entries()]
+          .sort(([a], [b]) => a.localeCompare(b))
+          .map(
+            ([assignee, links]) =>
+              `<b>${this.escapeHtml(assignee)}</b>: ${links.join(', ')}`,
+          ),
+      ),
+    ].filter(Boolean);
+    if (!sections.length) return null;
+
+    return `☀️ <b>Daily digest</b> — ${this.formatDay(yesterday)}\n\n${sections.join('\n\n')}`;
+  }
+
+  private formatSection(title: string, lines: string[]): string {
+    if (!lines.length) return '';
+    const shown = lines.slice(0, MAX_SECTION_ITEMS).map((line) => `• ${line}`);
+    if (lines.length > MAX_SECTION_ITEMS) {
+      shown.push(`<i>…and ${lines.length - MAX_SECTION_ITEMS} more</i>`);
+    }
+    return `<b>${title}</b> (${lines.length})\n${shown.join('\n')}`;
+  }
+
+  private issueLink(identifier: string, title: string): string {
+    return `<a href="https://linear.app/mobulalabs/issue/${identifier}">${identifier}</a> ${this.escapeHtml(title)}`;
+  }
+
+  private sortByIdentifier(
+    issues: LinearIssueSnapshot[],
+  ): LinearIssueSnapshot[] {
+    return [...issues].sort((a, b) =>
+      a.identifier.localeCompare(b.identifier, undefined, { numeric: true }),
+    );
+  }
+
+  /**
+   * Calendar date (YYYY-MM-DD) and minutes since midnight of an instant in a timezone
+   */
+  private localTime(
+    date: Date,
+    timezone: string,
+  ): { date: string; minutes: number } {
+    const parts = Object.fromEntries(
+      new Intl.DateTimeFormat('en-CA', {
+        timeZone: timezone,
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit',
+        hourCycle: 'h23',
+      })
+        .formatToParts(date)
+        .map((p) => [p.type, p.value]),
+    ) as Record<string, string>;
+    return {
+      date: `${parts.year}-${parts.month}-${parts.day}`,
+      minutes: Number(parts.hour) * 60 + Number(parts.minute),
+    };
+  }
+
+  private previousDay(date: string): string {
+    const [year, month, day] = date.split('-').map(Number);
+    return new Date(Date.UTC(year, month - 1, day - 1))
+      .toISOString()
+      .slice(0, 10);
+  }
+
+  private formatDay(date: string): string {
+    return new Date(`${date}T12:00:00Z`).toLocaleDateString('en-US', {
+      timeZone: 'UTC',
+      weekday: 'long',
+      month: 'short',
+      day: 'numeric',
+    });
+  }
+
+  private parseJsonArray<T>(raw?: string): T[] {
+    if (!raw) return [];
+    try {
+      const parsed = JSON.parse(raw) as unknown;
+      return Array.isArray(parsed) ? (parsed as T[]) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private settingsKey(chatId: number): string {
+    return `chat:${chatId}:digest`;
+  }
+
+  private escapeHtml(str: string): string {
+    return str
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;');
+  }
+}
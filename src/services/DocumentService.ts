@@ -0,0 +1,154 @@
+import * as path from 'node:path';
+import { Injectable } from '@nestjs/common';
+import { extractText, getDocumentProxy } from 'unpdf';
+
+export type DocumentKind = 'text' | 'json' | 'pdf';
+
+export interface ExtractedDocument {
+  kind: DocumentKind;
+  lineCount: number;
+  // JSON is shown whole (up to a limit); other files as error lines and stack traces when there
+  // are any, otherwise their start and end
+  excerpt: string;
+}
+
+const TEXT_EXTENSIONS = ['.log', '.txt', '.out', '.trace'];
+
+// Keeps the prompt small; the full file goes to Linear anyway
+const MAX_EXCERPT_CHARS = 6000;
+// Lines kept from each end of a file with no error lines
+const HEAD_TAIL_LINES = 40;
+
+// Also matches class names such as TypeError or NullPointerException
+const ERROR_LINE =
+  /(error|exception)\b|\b(fatal|panic|fail(ed|ure)?|traceback|critical|unhandled|crash(ed)?|segfault|timeout|refused)\b/i;
+// JS/Java "at ...", Python 'File "...", line N', native "#3 0x...", Go "main.go:42"
+const STACK_FRAME =
+  /^\s+at\s|^\s*File ".+", line \d+|^\s*#\d+\s+0x[0-9a-f]+|^\s+\S+\.(go|rs|c|cpp|swift|kt):\d+/i;
+
+/**
+ * Reads log, text, JSON and PDF files sent to the bot and picks out the parts worth showing the AI
+ */
+@Injectable()
+export default class DocumentService {
+  kindOf(fileName: string, mimeType?: string): DocumentKind | null {
+    const extension = path.extname(fileName).toLowerCase();
+    if (extension === '.pdf' || mimeType === 'application/pdf') return 'pdf';
+    if (extension === '.json' || mimeType === 'application/json') return 'json';
+    if (TEXT_EXTENSIONS.includes(extension) || mimeType?.startsWith('text/')) {
+      return 'text';
+    }
+    return null;
+  }
+
+  async extract(data: Buffer, kind: DocumentKind): Promise<ExtractedDocument> {
+    let text: string;
+    if (kind === 'pdf') {
+      const pdf = await getDocumentProxy(new Uint8Array(data));
+      text = (await extractText(pdf, { mergePages: true })).text;
+    } else {
+      text = data.toString('utf8');
+      if (kind === 'json') text = this.prettyJson(text);
+    }
+
+    const lines = text.split(/\r?\n/);
+    return {
+      kind,
+      lineCount: lines.length,
+      excerpt: kind === 'json' ? this.cap(text) : this.excerpt(lines),
+    };
+  }
+
+  /**
+   * Error lines with a line of context on each side, and stack frames.
+   * Files without any get their first and last lines instead.
+   */
+  private excerpt(lines: string[]): string {
+    const keep = new Set<number>();
+    lines.forEach((line, i) => {
+      if (STACK_FRAME.test(line)) {
+        keep.add(i);
+      } else if (ERROR_LINE.test(line)) {
+        [i - 1, i, i + 1].forEach((n) => keep.add(n));
+      }
+    });
+
+    if (!keep.size) {
+      if (lines.length <= HEAD_TAIL_LINES * 2) {
+        return this.cap(lines.join('\n'));
+      }
+      return this.cap(
+        [
+          ...lines.slice(0, HEAD_TAIL_LINES),
+          '…',
+          ...lines.slice(-HEAD_TAIL_LINES),
+        ].join('\n'),
+      );
+    }
+
+    // Consecutive kept lines form a block; repeated lines and blocks (log spam) are shown once
+    const blocks: string[] = [];
+    let current: string[] = [];
+    let repeats = 0;
+    const flushRepeats = () => {
+      if (repeats) current[current.length - 1] += ` (×${repeats + 1})`;
+      repeats = 0;
+    };
+    for (let i = 0; i < lines.length; i++) {
+      if (keep.has(i) && lines[i].trim()) {
+        if (lines[i] === lines[i - 1] && current.length) {
+          repeats++;
+          continue;
+        }
+        flushRepeats();
+        current.push(lines[i]);
+      } else if (current.length) {
+        flushRepeats();
+        blocks.push(current.join('\n'));
+        current = [];
+      }
+    }
+    flushRepeats();
+    if (current.length) blocks.push(current.join('\n'));
+
+    const unique = [...new Set(blocks)];
+    return this.cap(unique.join('\n…\n'), unique);
+  }
+
+  /**
+   * Trim to MAX_EXCERPT_CHARS, keeping whole blocks from both ends when there are blocks:
+   * the first error is often the cause, the last one what finally broke
+   */
+  private cap(text: string, blocks?: string[]): string {
+    if (text.length <= MAX_EXCERPT_CHARS) return text;
+    if (!blocks || blocks.length < 2) {
+      return `${text.slice(0, MAX_EXCERPT_CHARS)}\n…`;
+    }
+
+    const head: string[] = [];
+    const tail: string[] = [];
+    let size = 0;
+    for (let start = 0, end = blocks.length - 1; start <= end; ) {
+      const block = head.length <= tail.length ? blocks[start] : blocks[end];
+      if (size + block.length > MAX_EXCERPT_CHARS) break;
+      size += block.length;
+      if (head.length <= tail.length) {
+        head.push(block);
+        start++;
+      } else {
+        tail.unshift(block);
+        end--;
+      }
+    }
+    if (!head.length) return `${blocks[0].slice(0, MAX_EXCERPT_CHARS)}\n…`;
+    return [...head, ...tail].join('\n…\n');
+  }
+
+  private prettyJson(text: string): string {
+    try {
+      return JSON.stringify(JSON.parse(text), null, 2);
+    } catch {
+      return text;
+    }
+  }
+}
@@ -1,11 +1,357 @@
-import { Inject, Injectable } from '@nestjs/common';
+import * as crypto from 'node:crypto';
+import { forwardRef, Inject, Injectable } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import axios from 'axios';
-import { type Context, Telegraf } from 'telegraf';
-import type { Message, Update } from 'telegraf/types';
+import { type Context, type NarrowedContext, Telegraf } from 'telegraf';
+import type {
+  InlineKeyboardButton,
+  InlineQueryResultArticle,
+  Message,
+  Update,
+} from 'telegraf/types';
 import type LinearTrackerBotConfig from 'src/config/LinearBotConfig';
 import type Redis from 'ioredis';
-import AIService from './AIService';
+import type { SpeechToTextProvider } from 'src/stt/SpeechToTextProvider';
+import AIService, {
+  type AIFailureReason,
+  type DiscussionSummary,
+  type ParsedCommand,
+  type TeamPromptContext,
+} from './AIService';
+import type { UserMapping } from 'src/config/userMappings';
+import {
+  type BotPermission,
+  hasPermission,
+  isRole,
+  PERMISSION_LABELS,
+  PERMISSION_MATRIX,
+  type Role,
+  ROLES,
+} from 'src/config/permissions';
+import LinearClient, {
+  type CycleSelector,
+  type LinearCycleReport,
+  type IssueCreateInput,
+  type IssueUpdateInput,
+  type LinearIssue,
+  type LinearLabel,
+  type LinearIssueSummary,
+  type LinearTeam,
+} from './LinearClient';
+import DigestService from './DigestService';
+import DocumentService from './DocumentService';
+import LinearWebhookService, { type DeadLetter } from './LinearWebhookService';
+import RoleStore from './RoleStore';
+import StaleTicketService from './StaleTicketService';
+import UserMappingStore from './UserMappingStore';
+
+interface PendingEdit {
+  // assignee is only edited this way on ticket drafts
+  field: 'title' | 'description' | 'assignee';
+  identifier: string;
+  userId: number;
+  expiresAt: number;
+}
+
+// How long a user has to reply to an edit prompt
+const PENDING_EDIT_WINDOW_MS = 5 * 60 * 1000;
+// Keep the key a while longer so late replies get an "expired" notice instead of silence
+const PENDING_EDIT_RETENTION_SECONDS = 60 * 60;
+
+type DestructiveAction = 'cancel' | 'delete';
+
+// A cancel/delete waiting for Confirm or Abort on its confirmation card
+interface PendingDestructiveAction {
+  action: DestructiveAction;
+  issueId: string;
+  identifier: string;
+  userId: number;
+}
+
+// A cancel/delete that ran and can still be undone
+interface UndoableAction {
+  action: DestructiveAction;
+  issueId: string;
+  identifier: string;
+  // The issue:<id> hash as it was before the action, restored on undo
+  snapshot: Record<string, string>;
+}
+
+// How long Confirm/Abort stay valid on a cancel/delete confirmation card
+const CONFIRMATION_WINDOW_SECONDS = 60;
+
+// What one AI action did. Shown as is when it ran alone, or as one line of a combined result card.
+interface ActionResult {
+  // pending: waiting for the user to confirm on its own card
+  status: 'success' | 'failure' | 'pending';
+  text: string;
+  // Line for the combined card, defaults to the first line of `text`
+  summary?: string;
+  keyboard?: InlineKeyboardButton[][];
+  // Ticket the message is about, so replies to it become comments
+  issueId?: string;
+  // Failures that go to the sender's DM instead of the chat
+  viaDM?: boolean;
+}
+
+// Optional ticket fields the AI extracts from a message ("urgent", "frontend bug", "3 points", "by Friday")
+type TicketAttributes = Pick<
+  ParsedCommand,
+  'priority' | 'labels' | 'estimate' | 'dueDate'
+>;
+
+// A ticket ready to be created, kept while the requester decides what to do about likely duplicates
+interface TicketDraft {
+  title: string;
+  description: string;
+  // Telegram context appended to the description in Linear
+  contextFooter: string;
+  assigneeId: string | null;
+  assigneeName: string | null;
+  // Workflow state to create the issue in, the team default when null
+  status: string | null;
+  extra: Pick<
+    IssueCreateInput,
+    'priority' | 'labelIds' | 'estimate' | 'dueDate'
+  >;
+  unknownLabels: string[];
+  chatId: number;
+  team: string;
+  requester: {
+    id: number;
+    username?: string;
+    firstName?: string;
+    lastName?: string;
+  };
+  // Draft preview card, refreshed when a field is edited
+  previewMessageId?: number;
+}
+
+interface PendingDuplicateChoice {
+  draft: TicketDraft;
+  duplicates: LinearIssueSummary[];
+}
+
+// How long "Create anyway" / "Comment instead" / "Abort" stay valid on a duplicate card
+const DUPLICATE_CHOICE_TTL_SECONDS = 60 * 60;
+// Search hits looked at, and likely duplicates shown
+const DUPLICATE_SEARCH_LIMIT = 5;
+const MAX_DUPLICATE_SUGGESTIONS = 3;
+
+// Actions the AI is less sure about than this are rejected
+const MIN_ACTION_CONFIDENCE = 0.5;
+// Ticket drafts (create requests between MIN_ACTION_CONFIDENCE and the chat's draft threshold) wait this long for Create
+const TICKET_DRAFT_TTL_SECONDS = 60 * 60;
+// Drafts go through the edit_/editfield_ buttons under this pseudo identifier
+const DRAFT_REF_PREFIX = 'draft-';
+
+// Who asked for a ticket and from where, shared by every draft built from one Telegram request
+type DraftOrigin = Pick<
+  TicketDraft,
+  'contextFooter' | 'chatId' | 'team' | 'requester'
+>;
+
+// One message in chat:<id>:history
+interface ChatHistoryEntry {
+  from: string;
+  text: string;
+  // Unix seconds, as sent by Telegram
+  timestamp: number;
+  // Missing on entries stored before /summarize existed
+  messageId?: number;
+}
+
+// A /summarize result waiting for Create ticket, Split or Discard
+interface PendingDiscussionSummary {
+  summary: DiscussionSummary;
+  origin: DraftOrigin;
+  messageCount: number;
+}
+
+type MessageContext = NarrowedContext<Context, Update.MessageUpdate>;
+
+// An album being collected: handled once all its photos are in, as the message that carries the caption
+interface PendingMediaGroup {
+  ctx: MessageContext;
+  photos: { messageId: number; fileId: string }[];
+}
+
+// Telegram sends an album as one message per photo, a moment apart; wait this long for the rest
+const MEDIA_GROUP_WAIT_MS = 1500;
+
+// Messages the AI sees as context when the bot is mentioned, however many the chat keeps for /summarize
+const CHAT_CONTEXT_MESSAGES = 20;
+// Team name, states and labels for AI prompts are re-read from Linear at most this often
+const TEAM_PROMPT_CONTEXT_CACHE_SECONDS = 60;
+const MAX_CHAT_HISTORY_SIZE = 500;
+const DISCUSSION_SUMMARY_TTL_SECONDS = 60 * 60;
+
+const ACTION_RESULT_ICONS: Record<ActionResult['status'], string> = {
+  success: '✅',
+  failure: '❌',
+  pending: '⏳',
+};
+
+export interface IssueFieldChange {
+  field: 'status' | 'assignee' | 'priority' | 'title' | 'dueDate' | 'labels';
+  from: string | null;
+  to: string | null;
+}
+
+export interface IssueChangeSet {
+  // Name of the Linear user who made the change, when the webhook says
+  actor: string | null;
+  changes: IssueFieldChange[];
+  removed?: boolean;
+}
+
+// One status move from a Linear webhook, kept on the issue:<id> hash for the daily digest
+export interface IssueStatusChange {
+  from: string | null;
+  to: string | null;
+  actor: string | null;
+  changedAt: string;
+}
+
+// Older status moves are dropped from the issue:<id> hash
+const STATUS_HISTORY_LIMIT = 50;
+
+const ISSUE_FIELD_LABELS: Record<IssueFieldChange['field'], string> = {
+  status: 'Status',
+  assignee: 'Assignee',
+  priority: 'Priority',
+  title: 'Title',
+  dueDate: 'Due date',
+  labels: 'Labels',
+};
+
+// Telegram message -> Linear issue links, used for reply-to-comment
+const MESSAGE_ISSUE_TTL_SECONDS = 30 * 24 * 60 * 60;
+// Appended to comments posted from Telegram, followed by the author's name
+const TELEGRAM_COMMENT_SIGNATURE = '_— via Telegram from';
+
+const ROLE_USAGE =
+  '❌ <b>Usage:</b>\n' +
+  '/role — List roles\n' +
+  `/role set @user ${ROLES.join('|')} [chat]\n` +
+  '/role remove @user [chat]\n\n' +
+  '<i>Add "chat" to only apply the role in this chat.</i>';
+
+const USERS_USAGE =
+  '❌ <b>Usage:</b>\n' +
+  '/users — List mapped users\n' +
+  '/users add &lt;telegram&gt; &lt;linearName&gt; &lt;email&gt; [alias1,alias2]\n' +
+  '/users set &lt;person&gt; name|email|telegram &lt;value&gt;\n' +
+  '/users remove &lt;person&gt;';
+
+const ALIAS_USAGE =
+  '❌ <b>Usage:</b>\n' +
+  '/alias &lt;person&gt; — Show aliases\n' +
+  '/alias add &lt;person&gt; &lt;alias&gt;\n' +
+  '/alias remove &lt;person&gt; &lt;alias&gt;';
+
+const DRAFTS_USAGE =
+  '❌ <b>Usage:</b>\n' +
+  '/drafts — Show when create requests become drafts\n' +
+  '/drafts &lt;0.5-1&gt; — Draft create requests the AI is less sure about than this\n' +
+  '/drafts off — Always create right away\n' +
+  '/drafts default — Use DRAFT_CONFIDENCE_THRESHOLD';
+
+const SUMMARIZE_USAGE =
+  '❌ <b>Usage:</b>\n' +
+  '/summarize — Summarize the whole chat history\n' +
+  '/summarize &lt;N&gt; — Summarize the last N messages\n' +
+  '/summarize since &lt;30m|2h|1d|14:30&gt; — Summarize messages since then\n' +
+  '<i>Or reply /summarize to the first message of the discussion.</i>';
+
+const HISTORY_USAGE =
+  '❌ <b>Usage:</b>\n' +
+  '/history — Show how much chat history is kept\n' +
+  `/history &lt;1-${MAX_CHAT_HISTORY_SIZE}&gt; [30m|2h|1d] — Keep that many messages, for that long after the last one\n` +
+  '/history default — Use CHAT_HISTORY_SIZE and CHAT_HISTORY_TTL_SECONDS';
+
+const DIGEST_USAGE =
+  '❌ <b>Usage:</b>\n' +
+  '/digest — Show the daily digest settings\n' +
+  '/digest on|off — Turn the morning digest on or off\n' +
+  '/digest &lt;HH:MM&gt; — Post it at this time\n' +
+  '/digest tz &lt;timezone&gt; — Use this timezone, e.g. Europe/Paris\n' +
+  "/digest now — Show yesterday's digest now";
+
+const STALE_USAGE =
+  '❌ <b>Usage:</b>\n' +
+  '/stale — Show when stale tickets are nudged\n' +
+  '/stale &lt;state&gt; &lt;2d&gt; [4d] — Nudge the assignee after the first duration, tell the admin chat after the second\n' +
+  '/stale &lt;state&gt; off — Never nudge about tickets in this state\n' +
+  '/stale default — Use STALE_RULES';
+
+// Snooze buttons on stale ticket nudges
+const STALE_SNOOZE_OPTIONS: Record<string, { label: string; seconds: number }> =
+  {
+    '1d': { label: '1 day', seconds: 86400 },
+    '3d': { label: '3 days', seconds: 3 * 86400 },
+    '1w': { label: '1 week', seconds: 7 * 86400 },
+  };
+
+const CYCLE_USAGE =
+  '❌ <b>Usage:</b>\n' +
+  '/cycle — Progress of the active cycle\n' +
+  '/cycle next — The next cycle\n' +
+  '/cycle previous — The previous cycle';
+
+// /cycle arguments; a Map so input like "constructor" does not match object prototype keys
+const CYCLE_ARGUMENTS = new Map<string, CycleSelector>([
+  ['', 'active'],
+  ['next', 'next'],
+  ['previous', 'previous'],
+  ['prev', 'previous'],
+]);
+
+const SEARCH_USAGE =
+  '❌ <b>Usage:</b>\n' +
+  '/search &lt;text&gt; [assignee:&lt;user&gt;] [state:&lt;state&gt;] [label:&lt;label&gt;]\n' +
+  '<i>Example: /search login crash assignee:flo state:"In Review" label:bug</i>';
+
+// How many failed webhook events /deadletters shows at once
+const DEAD_LETTER_LIST_LIMIT = 10;
+
+interface TicketListQuery {
+  title: string;
+  // Set for /search: results come from Linear's full-text search instead of the issue list
+  search?: string;
+  assigneeId?: string;
+  stateName?: string;
+  labelName?: string;
+  page: number;
+}
+
+// Telegram and Redis both keep inline query answers this long
+const INLINE_QUERY_CACHE_SECONDS = 30;
+const INLINE_QUERY_RESULT_LIMIT = 20;
+
+// How many /search results are fetched, across all pages
+const SEARCH_RESULT_LIMIT = 50;
+
+const TICKET_LIST_PAGE_SIZE = 8;
+const TICKET_LIST_TTL_SECONDS = 60 * 60;
+
+// Sort order and emoji per Linear workflow state type
+const STATE_TYPE_ORDER: Record<string, number> = {
+  started: 0,
+  unstarted: 1,
+  backlog: 2,
+  triage: 3,
+  completed: 4,
+  canceled: 5,
+};
+const STATE_TYPE_EMOJI: Record<string, string> = {
+  started: '🔄',
+  unstarted: '📋',
+  backlog: '🗂️',
+  triage: '📥',
+  completed: '✅',
+  canceled: '🚫',
+};
 
 interface TelegramLinearIssue {
   chatId: number;
@@ -21,25 +367,33 @@ interface TelegramLinearIssue {
   createdAt: string;
   updatedAt: string;
   comments?: { text: string; author: string; createdAt: string }[];
+  statusHistory?: IssueStatusChange[];
 }
 
 @Injectable()
 export default class LinearTrackerBot {
   private bot?: Telegraf<Context>;
   private isLaunched = false;
+  // Albums being collected, by media_group_id
+  private readonly mediaGroups = new Map<string, PendingMediaGroup>();
   private botUsername?: string;
 
-  private allowedUsernames: Set<string>;
-
   constructor(
     @Inject(ConfigService) private readonly config: ConfigService<LinearTrackerBotConfig, true>,
     @Inject('REDIS') private readonly redis: Redis,
     @Inject(AIService) private readonly aiService: AIService,
-  ) {
-    const usernames = this.config.get<string>('TELEGRAM_ALLOWED_USERNAMES') || '';
-    console.log('Whitelisted usernames from env:', usernames);
-    this.allowedUsernames = new Set(usernames.split(',').map((u) => u.trim()).filter(Boolean));
-  }
+    @Inject(LinearClient) private readonly linearClient: LinearClient,
+    @Inject(forwardRef(() => LinearWebhookService))
+    private readonly webhookService: LinearWebhookService,
+    @Inject(UserMappingStore) private readonly userMappings: UserMappingStore,
+    @Inject(RoleStore) private readonly roles: RoleStore,
+    @Inject(DocumentService) private readonly documents: DocumentService,
+    @Inject('STT_PROVIDER') private readonly stt: SpeechToTextProvider | null,
+    @Inject(forwardRef(() => DigestService))
+    private readonly digests: DigestService,
+    @Inject(forwardRef(() => StaleTicketService))
+    private readonly staleTickets: StaleTicketService,
+  ) {}
 
   private get brandName(): string {
     const isHawk = this.config.get<boolean>('IS_HAWK');
@@ -77,6 +431,16 @@ export default class LinearTrackerBot {
     }
   }
 
+  private parseStatusHistory(raw?: string): IssueStatusChange[] {
+    if (!raw) return [];
+    try {
+      const parsed = JSON.parse(raw) as unknown;
+      return Array.isArray(parsed) ? (parsed as IssueStatusChange[]) : [];
+    } catch {
+      return [];
+    }
+  }
+
   private formatDate(dateString: string): string {
     if (!dateString) return 'Unknown';
 
@@ -127,8 +491,6 @@ export default class LinearTrackerBot {
     this.bot = new Telegraf(token);
     console.log('Telegram bot instance created');
 
-    console.log("Allowed usernames:", Array.from(this.allowedUsernames).join(', '));
-
     // Start command
     this.bot.start((ctx) => {
       // const welcomeMsg = `🚀 <b>Welcome to Mobula Super Bot!</b>
@@ -136,6 +498,18 @@ export default class LinearTrackerBot {
 
 <b>Available Commands:</b>
 /ticket &lt;title&gt; | &lt;description&gt; — Create a new ticket
+/mytickets — List tickets assigned to you
+/tickets [@user] [status] — List tickets for a teammate or status
+/summarize [N|since &lt;time&gt;] — Turn the recent discussion into a ticket
+/search &lt;text&gt; [assignee: state: label:] — Find tickets
+/cycle [next|previous] — Progress and burndown of the current cycle
+/bindteam — Choose the Linear team for this chat (admin)
+/drafts — Choose when create requests are shown as a draft first (admin)
+/history — Choose how much chat history is kept (admin)
+/digest — Set up the morning digest of yesterday's activity (admin)
+/stale — Choose when people are nudged about tickets that do not move (admin)
+/users, /alias — Manage Telegram ↔ Linear user mappings (admin)
+/role — Give people a role globally or in this chat (admin)
 /help — Show this help message
 
 Ready to track your tickets! 📝`;
@@ -150,6 +524,14 @@ Ready to track your tickets! 📝`;
 <b>Commands:</b>
 /ticket &lt;title&gt; | &lt;description&gt; — Create issue
 <i>Example: /ticket Fix login bug | Users can't login on mobile</i>
+/mytickets — Your open tickets, grouped by status
+/tickets [@user] [status] — Tickets for a teammate and/or status
+<i>Example: /tickets @sandy In Review</i>
+/summarize [N|since &lt;time&gt;] — Turn the discussion into a ticket
+<i>Example: /summarize since 2h, or reply /summarize to the first message</i>
+/search &lt;text&gt; [assignee:&lt;user&gt;] [state:&lt;state&gt;] [label:&lt;label&gt;] — Find tickets
+<i>Example: /search login assignee:flo state:"In Review"</i>
+/cycle [next|previous] — Cycle progress, per-assignee breakdown and burndown
 
 💡 <b>Tips:</b>
 • Use | to separate title and description`;
@@ -166,17 +548,17 @@ Ready to track your tickets! 📝`;
     return ctx.reply(
       `❌ <b>Usage:</b> /ticket &lt;title&gt; | &lt;description&gt;
 \n\n<b>Example:</b>\n/ticket Fix login issue | Users unable to authenticate`,
-      { parse_mode: 'HTML' },
-    );
-  }
-      const username = ctx.from?.username;
-
-      if (!username || !this.allowedUsernames.has(username)) {
-        return ctx.reply(
-          '❌ You are not authorized to create issues.\nPlease contact the admin to get access.',
           { parse_mode: 'HTML' },
         );
       }
+      const denial = await this.checkPermission(
+        ctx.from?.username,
+        ctx.chat.id,
+        'create',
+      );
+      if (denial) {
+        return ctx.reply(denial, { parse_mode: 'HTML' });
+      }
 
       const [titlePart, ...descParts] = args.split('|');
       const title = (titlePart ?? '').trim();
@@ -188,47 +570,13 @@ Ready to track your tickets! 📝`;
       const creatingMsg = await ctx.reply('⏳ Creating Ticket...', { parse_mode: 'HTML' });
 
       try {
-        // Get active cycle
-        const cycleId = await this.getActiveCycleId();
-        
-        let mutation = `
-        mutation {
-          issueCreate(input: {
-            title: "${title}",
-            description: "${description}",
-            teamId: "${this.config.get('LINEAR_TEAM_ID')}"`;
-        
-        if (cycleId) {
-          mutation += `,
-            cycleId: "${cycleId}"`;
-        }
-        
-        mutation += `
-          }) {
-            success
-            issue {
-              id
-              identifier
-              title
-              state { name }
-              cycle { id name }
-            }
-          }
-        }`;
-
-        const res = await axios.post(
-          this.config.get('LINEAR_API_URL'),
-          { query: mutation },
-          {
-            headers: {
-              Authorization: `${this.config.get('LINEAR_API_KEY')}`,
-              'Content-Type': 'application/json',
-            },
-          },
+        const issue = await this.createLinearIssue(
+          title,
+          description,
+          null,
+          ctx.chat.id,
         );
 
-        const issue = res.data.data?.issueCreate?.issue;
-
         if (!issue) {
           await ctx.telegram.editMessageText(
             ctx.chat.id,
@@ -261,9 +609,20 @@ Ready to track your tickets! 📝`;
         // Success message safely in HTML
         const successMsg = `✅ <b>Issue Created Successfully!</b> ${issue.identifier} — ${issue.title}`;
 
-        await ctx.telegram.editMessageText(ctx.chat.id, creatingMsg.message_id, undefined, successMsg, {
-          parse_mode: 'HTML',
-        });
+        await ctx.telegram.editMessageText(
+          ctx.chat.id,
+          creatingMsg.message_id,
+          undefined,
+          successMsg,
+          {
+            parse_mode: 'HTML',
+          },
+        );
+        await this.linkMessageToIssue(
+          ctx.chat.id,
+          creatingMsg.message_id,
+          issue.id,
+        );
       } catch (err: unknown) {
         const error = err as { response?: { data?: unknown }; message?: string };
         console.error('Error creating Ticket issue', error?.response?.data || error?.message);
@@ -278,213 +637,180 @@ Ready to track your tickets! 📝`;
       }
     });
 
-    // Handle mentions for AI-powered ticket operations
-    this.bot.on('message', async (ctx) => {
-      const message = ctx.message;
-      
-      // Extract text from message or caption (for photos)
-      const text = 'text' in message ? message.text : ('caption' in message ? message.caption : null);
-      const entities = 'entities' in message ? message.entities : ('caption_entities' in message ? message.caption_entities : []);
-      
-      // Store message in chat history for context (keep last 20 messages)
-      if (text) {
-        const chatHistoryKey = `chat:${ctx.chat.id}:history`;
-        const msgData = JSON.stringify({
-          from: ctx.from?.username || ctx.from?.first_name || 'Unknown',
-          text: text,
-          timestamp: message.date,
-        });
-        await this.redis.lpush(chatHistoryKey, msgData);
-        await this.redis.ltrim(chatHistoryKey, 0, 19); // Keep only last 20 messages
-        await this.redis.expire(chatHistoryKey, 3600); // Expire after 1 hour
-      }
-      
-      if (!text) {
-        return;
-      }
-
-      const botMentioned = this.isBotMentionedInText(text, entities);
-
-      if (!botMentioned) {
-        return;
-      }
-
+    // My tickets command - issues assigned to the sender
+    this.bot.command('mytickets', async (ctx) => {
       const username = ctx.from?.username;
-      if (!username || !this.allowedUsernames.has(username)) {
-        return ctx.reply(
-          '❌ You are not authorized to use this bot.\nPlease contact the admin to get access.',
-          { parse_mode: 'HTML' },
-        );
+      const denial = await this.checkPermission(username, ctx.chat.id, 'view');
+      if (denial) {
+        return ctx.reply(denial, { parse_mode: 'HTML' });
       }
 
-      // Remove bot mention from message
-      const cleanMessage = this.removeBotMention(text);
-      if (!cleanMessage.trim()) {
+      const assignee = await this.resolveLinearAssignee(username!);
+      if (!assignee) {
         return ctx.reply(
-          `💡 <b>How to use me:</b>\n\n` +
-          `📝 <b>Create:</b> <i>"create a ticket for Sandy to fix the login bug"</i>\n` +
-          `✏️ <b>Edit:</b> <i>"edit this ticket"</i> or <i>"edit MOB-1234"</i>\n` +
-          `❌ <b>Cancel:</b> <i>"cancel this ticket"</i>\n` +
-          `👤 <b>Assign:</b> <i>"assign this ticket to Cyril"</i>\n` +
-          `📊 <b>Status:</b> <i>"set this ticket to In Progress"</i>`,
+          `❌ <b>No Linear user found for @${username}</b>\n\nAsk the admin to add you to the user mappings.`,
           { parse_mode: 'HTML' },
         );
       }
 
-      const processingMsg = await ctx.reply('🤖 Analyzing your request...', { parse_mode: 'HTML' });
+      await this.showTicketList(ctx, {
+        title: 'My tickets',
+        assigneeId: assignee.id,
+        page: 0,
+      });
+    });
 
-      try {
-        // Get recent tickets from this chat for context
-        const chatIssuesKey = `chat:${ctx.chat.id}:issues`;
-        const recentIssueIds = await this.redis.smembers(chatIssuesKey);
-        const recentTickets: string[] = [];
-        
-        for (const issueId of recentIssueIds.slice(0, 5)) {
-          const issueData = await this.redis.hgetall(`issue:${issueId}`);
-          if (issueData?.identifier) {
-            recentTickets.push(`${issueData.identifier}: ${issueData.title || 'No title'}`);
-          }
-        }
+    // Tickets command - issues for any team member and/or workflow state
+    this.bot.command('tickets', async (ctx) => {
+      const denial = await this.checkPermission(
+        ctx.from?.username,
+        ctx.chat.id,
+        'view',
+      );
+      if (denial) {
+        return ctx.reply(denial, { parse_mode: 'HTML' });
+      }
 
-        // Get chat history for context
-        const chatHistoryKey = `chat:${ctx.chat.id}:history`;
-        const historyRaw = await this.redis.lrange(chatHistoryKey, 0, 19);
-        const chatHistory = historyRaw
-          .map((h) => {
-            try {
-              return JSON.parse(h) as { from: string; text: string; timestamp: number };
-            } catch {
-              return null;
-            }
-          })
-          .filter((h): h is { from: string; text: string; timestamp: number } => h !== null)
-          .reverse();
+      const args = ctx.message.text.replace(/^\/tickets(@\S+)?/, '').trim();
+      const query = await this.parseTicketListArgs(args, ctx.chat.id);
+      if ('error' in query) {
+        return ctx.reply(query.error, { parse_mode: 'HTML' });
+      }
 
-        // Get reply-to message if exists
-        let replyContext = '';
-        const replyToMessage = (message as Message.TextMessage & { reply_to_message?: Message.TextMessage }).reply_to_message;
-        if (replyToMessage && 'text' in replyToMessage) {
-          replyContext = `\n\n[Replying to message from ${replyToMessage.from?.username || replyToMessage.from?.first_name || 'Unknown'}]: "${replyToMessage.text}"`;
-        }
+      await this.showTicketList(ctx, query);
+    });
 
-        // Build context string
-        let contextString = '';
-        if (chatHistory.length > 1) {
-          contextString = '\n\n--- Recent chat history ---\n';
-          contextString += chatHistory
-            .slice(0, -1)
-            .map((h) => `${h.from}: ${h.text}`)
-            .join('\n');
-          contextString += '\n--- End of history ---';
-        }
+    // Search command - full-text search over the team's tickets, with optional filters
+    this.bot.command('search', async (ctx) => {
+      const denial = await this.checkPermission(
+        ctx.from?.username,
+        ctx.chat.id,
+        'view',
+      );
+      if (denial) {
+        return ctx.reply(denial, { parse_mode: 'HTML' });
+      }
 
-        // Add info about who is sending the message (for "me", "myself" resolution)
-        const senderUsername = ctx.from?.username || '';
-        const senderInfo = senderUsername ? `\n\n[Message sent by: @${senderUsername}]` : '';
-        
-        const fullContext = cleanMessage + replyContext + contextString + senderInfo;
+      const args = ctx.message.text.replace(/^\/search(@\S+)?/, '').trim();
+      const query = await this.parseSearchArgs(args, ctx.chat.id);
+      if ('error' in query) {
+        return ctx.reply(query.error, { parse_mode: 'HTML' });
+      }
 
-        // Download image if present
-        let imageBase64: string | null = null;
-        if ('photo' in message && message.photo && message.photo.length > 0) {
-          try {
-            // Get the largest photo (last in array)
-            const photo = message.photo[message.photo.length - 1];
-            const fileLink = await ctx.telegram.getFileLink(photo.file_id);
-            const imageResponse = await axios.get(fileLink.href, { responseType: 'arraybuffer' });
-            imageBase64 = Buffer.from(imageResponse.data).toString('base64');
-          } catch (imgErr) {
-            console.error('Failed to download image:', imgErr);
-          }
-        }
+      await this.showTicketList(ctx, query);
+    });
 
-        // Parse the command using AI (with optional image)
-        const command = await this.aiService.parseCommand(fullContext, recentTickets, imageBase64);
+    // Cycle command - progress and burndown of the active cycle or its neighbours
+    this.bot.command('cycle', async (ctx) => {
+      const denial = await this.checkPermission(
+        ctx.from?.username,
+        ctx.chat.id,
+        'view',
+      );
+      if (denial) {
+        return ctx.reply(denial, { parse_mode: 'HTML' });
+      }
 
-        if (!command) {
-          // AI service failed (API error, quota exceeded, etc.) - send error via DM
-          await this.sendErrorViaDM(
-            ctx,
-            processingMsg.message_id,
-            '🚫 <b>Service temporarily unavailable</b>\n\nThe AI service is currently unavailable. This could be due to:\n• API quota exceeded\n• Service temporarily down\n\nPlease try again later or contact the admin.',
-          );
-          return;
-        }
+      const arg = ctx.message.text
+        .replace(/^\/cycle(@\S+)?/, '')
+        .trim()
+        .toLowerCase();
+      const which = CYCLE_ARGUMENTS.get(arg);
+      if (!which) {
+        return ctx.reply(CYCLE_USAGE, { parse_mode: 'HTML' });
+      }
 
-        if (command.confidence < 0.5) {
-          await ctx.telegram.editMessageText(
-            ctx.chat.id,
-            processingMsg.message_id,
-            undefined,
-            `❌ <b>Could not understand your request</b>\n\nTry something like:\n` +
-            `<i>"Create a ticket for Sandy to fix the login bug"</i>\n` +
-            `<i>"Cancel this ticket"</i>\n` +
-            `<i>"Assign MOB-1234 to Cyril"</i>`,
+      try {
+        const cycle = await this.linearClient.getCycleReport(
+          await this.getChatTeamId(ctx.chat.id),
+          which,
+        );
+        if (!cycle) {
+          return ctx.reply(
+            `❓ <b>No ${which} cycle</b>\n\nThis team has no ${which} cycle in Linear.`,
             { parse_mode: 'HTML' },
           );
-          return;
-        }
-
-        // Handle different actions
-        switch (command.action) {
-          case 'edit':
-            await this.handleEditAction(ctx, processingMsg.message_id, command.ticketIdentifier, command.editField, command.newValue, command.assigneeName);
-            break;
-          case 'cancel':
-            await this.handleCancelAction(ctx, processingMsg.message_id, command.ticketIdentifier);
-            break;
-          case 'delete':
-            await this.handleDeleteAction(ctx, processingMsg.message_id, command.ticketIdentifier);
-            break;
-          case 'assign':
-            await this.handleAssignAction(ctx, processingMsg.message_id, command.ticketIdentifier, command.assigneeName);
-            break;
-          case 'status':
-            await this.handleStatusAction(ctx, processingMsg.message_id, command.ticketIdentifier, command.newStatus);
-            break;
-          case 'create':
-          default:
-            await this.handleCreateAction(ctx, processingMsg.message_id, command);
-            break;
         }
+        return ctx.reply(this.formatCycleReport(cycle), { parse_mode: 'HTML' });
       } catch (err) {
-        console.error('Error processing command:', err);
-        // Send error via DM instead of public channel
-        await this.sendErrorViaDM(
-          ctx,
-          processingMsg.message_id,
-          '❌ <b>An error occurred</b>\n\nSomething went wrong while processing your request. Please try again later.',
+        console.error('Failed to fetch cycle:', err);
+        return ctx.reply(
+          '❌ <b>Error fetching the cycle</b>\n\nPlease try again later.',
+          { parse_mode: 'HTML' },
         );
       }
     });
 
-    // Handle Edit button callback - show menu
-    this.bot.action(/^edit_(.+)$/, async (ctx) => {
-      const username = ctx.from?.username;
-      if (!this.isUserAuthorized(username)) {
-        await ctx.answerCbQuery('❌ You are not authorized', { show_alert: true });
+    // Handle ticket list pagination
+    this.bot.action(/^tlpage_(\d+)$/, async (ctx) => {
+      const denial = await this.checkPermission(
+        ctx.from?.username,
+        ctx.chat!.id,
+        'view',
+      );
+      if (denial) {
+        await ctx.answerCbQuery(denial, { show_alert: true });
+        return;
+      }
+      const listMessageId = ctx.callbackQuery.message?.message_id;
+      const query = listMessageId
+        ? await this.getTicketListQuery(ctx.chat!.id, listMessageId)
+        : null;
+      if (!query) {
+        await ctx.answerCbQuery(
+          'This list has expired, run the command again',
+          { show_alert: true },
+        );
         return;
       }
 
-      const issueIdentifier = ctx.match[1];
-      
       await ctx.answerCbQuery();
+      await this.showTicketList(ctx, query, Number(ctx.match[1]));
+    });
+
+    // Bind this chat to a Linear team (admin only)
+    this.bot.command('bindteam', async (ctx) => {
+      const denial = await this.checkPermission(
+        ctx.from?.username,
+        ctx.chat.id,
+        'manage',
+      );
+      if (denial) {
+        return ctx.reply(denial, { parse_mode: 'HTML' });
+      }
+
+      let teams: LinearTeam[];
+      try {
+        teams = await this.linearClient.getTeams();
+      } catch (err) {
+        console.error('Failed to fetch Linear teams:', err);
+        return ctx.reply('❌ <b>Error fetching Linear teams</b>', {
+          parse_mode: 'HTML',
+        });
+      }
+
+      const binding = await this.getChatTeamBinding(ctx.chat.id);
+      const current = binding
+        ? `<b>${this.escapeHtml(binding.name)}</b> (${this.escapeHtml(binding.key)})`
+        : '<i>workspace default</i>';
+
       await ctx.reply(
-        `✏️ <b>Edit Ticket ${issueIdentifier}</b>\n\nWhat would you like to edit?`,
-        { 
+        `🏷️ <b>Linear team for this chat</b>\n\nCurrent: ${current}\n\nPick the team new tickets should go to:`,
+        {
           parse_mode: 'HTML',
           reply_markup: {
             inline_keyboard: [
+              ...teams.map((team) => [
+                {
+                  text: `${team.name} (${team.key})`,
+                  callback_data: `bindteam_${team.id}`,
+                },
+              ]),
               [
-                { text: '📌 Title', callback_data: `editfield_title_${issueIdentifier}` },
-                { text: '📝 Description', callback_data: `editfield_desc_${issueIdentifier}` },
-              ],
-              [
-                { text: '👤 Assignee', callback_data: `editfield_assignee_${issueIdentifier}` },
-                { text: '📊 Status', callback_data: `editfield_status_${issueIdentifier}` },
-              ],
-              [
-                { text: '🔗 Open in Linear', url: `https://linear.app/mobulalabs/issue/${issueIdentifier}` },
+                {
+                  text: '↩️ Use default team',
+                  callback_data: 'bindteam_default',
+                },
               ],
             ],
           },
@@ -492,994 +818,4098 @@ Ready to track your tickets! 📝`;
       );
     });
 
-    // Handle edit field selection - Title
-    this.bot.action(/^editfield_title_(.+)$/, async (ctx) => {
-      if (!this.isUserAuthorized(ctx.from?.username)) {
-        await ctx.answerCbQuery('❌ You are not authorized', { show_alert: true });
-        return;
-      }
-      const issueIdentifier = ctx.match[1];
-      await ctx.answerCbQuery();
-      await ctx.editMessageText(
-        `📌 <b>Edit Title for ${issueIdentifier}</b>\n\nReply to this message with the new title, or use:\n<code>@${this.botUsername} edit titre ${issueIdentifier} : New Title</code>`,
-        { parse_mode: 'HTML' },
+    // Handle team picker selection
+    this.bot.action(/^bindteam_(.+)$/, async (ctx) => {
+      const denial = await this.checkPermission(
+        ctx.from?.username,
+        ctx.chat!.id,
+        'manage',
       );
-      // Store pending edit in Redis
-      await this.redis.setex(`pending_edit:${ctx.chat!.id}`, 300, JSON.stringify({ 
-        field: 'title', 
-        identifier: issueIdentifier 
-      }));
-    });
-
-    // Handle edit field selection - Description
-    this.bot.action(/^editfield_desc_(.+)$/, async (ctx) => {
-      if (!this.isUserAuthorized(ctx.from?.username)) {
-        await ctx.answerCbQuery('❌ You are not authorized', { show_alert: true });
+      if (denial) {
+        await ctx.answerCbQuery(denial, { show_alert: true });
         return;
       }
-      const issueIdentifier = ctx.match[1];
-      await ctx.answerCbQuery();
-      await ctx.editMessageText(
-        `📝 <b>Edit Description for ${issueIdentifier}</b>\n\nReply to this message with the new description, or use:\n<code>@${this.botUsername} edit description ${issueIdentifier} : New description</code>`,
-        { parse_mode: 'HTML' },
-      );
-      await this.redis.setex(`pending_edit:${ctx.chat!.id}`, 300, JSON.stringify({ 
-        field: 'description', 
-        identifier: issueIdentifier 
-      }));
-    });
+      const teamId = ctx.match[1];
+      const chatId = ctx.chat!.id;
 
-    // Handle edit field selection - Assignee
-    this.bot.action(/^editfield_assignee_(.+)$/, async (ctx) => {
-      if (!this.isUserAuthorized(ctx.from?.username)) {
-        await ctx.answerCbQuery('❌ You are not authorized', { show_alert: true });
-        return;
+      try {
+        if (teamId === 'default') {
+          await this.redis.del(this.chatTeamKey(chatId));
+          await ctx.answerCbQuery('Using the default team');
+          await ctx.editMessageText(
+            '🏷️ <b>This chat now uses the default Linear team</b>',
+            { parse_mode: 'HTML' },
+          );
+          return;
+        }
+
+        const team = (await this.linearClient.getTeams()).find(
+          (t) => t.id === teamId,
+        );
+        if (!team) {
+          await ctx.answerCbQuery('Team not found', { show_alert: true });
+          return;
+        }
+
+        await this.redis.set(this.chatTeamKey(chatId), JSON.stringify(team));
+        await ctx.answerCbQuery(`Bound to ${team.name}`);
+        await ctx.editMessageText(
+          `🏷️ <b>This chat now files tickets in ${this.escapeHtml(team.name)}</b> (${this.escapeHtml(team.key)})`,
+          { parse_mode: 'HTML' },
+        );
+      } catch (err) {
+        console.error('Failed to bind team:', err);
+        await ctx.answerCbQuery('Error binding team');
       }
-      const issueIdentifier = ctx.match[1];
-      await ctx.answerCbQuery();
-      await ctx.editMessageText(
-        `👤 <b>Change Assignee for ${issueIdentifier}</b>\n\nUse:\n<code>@${this.botUsername} assign ${issueIdentifier} to [name]</code>\n\nExample: <code>@${this.botUsername} assign ${issueIdentifier} to florent</code>`,
-        { parse_mode: 'HTML' },
-      );
     });
 
-    // Handle edit field selection - Status
-    this.bot.action(/^editfield_status_(.+)$/, async (ctx) => {
-      if (!this.isUserAuthorized(ctx.from?.username)) {
-        await ctx.answerCbQuery('❌ You are not authorized', { show_alert: true });
-        return;
+    // Set when create requests in this chat are shown as a draft first (admin only)
+    this.bot.command('drafts', async (ctx) => {
+      const denial = await this.checkPermission(
+        ctx.from?.username,
+        ctx.chat.id,
+        'manage',
+      );
+      if (denial) {
+        return ctx.reply(denial, { parse_mode: 'HTML' });
       }
-      const issueIdentifier = ctx.match[1];
-      await ctx.answerCbQuery();
-      await ctx.reply(
-        `📊 <b>Change Status for ${issueIdentifier}</b>\n\nSelect new status:`,
-        { 
+
+      const arg = ctx.message.text
+        .replace(/^\/drafts(@\S+)?/, '')
+        .trim()
+        .toLowerCase();
+      const key = this.draftThresholdKey(ctx.chat.id);
+
+      try {
+        if (arg === 'default') {
+          await this.redis.del(key);
+        } else if (arg === 'off') {
+          await this.redis.set(key, String(MIN_ACTION_CONFIDENCE));
+        } else if (arg) {
+          const threshold = Number(arg);
+          if (
+            Number.isNaN(threshold) ||
+            threshold < MIN_ACTION_CONFIDENCE ||
+            threshold > 1
+          ) {
+            return ctx.reply(DRAFTS_USAGE, { parse_mode: 'HTML' });
+          }
+          await this.redis.set(key, String(threshold));
+        }
+
+        const threshold = await this.getDraftThreshold(ctx.chat.id);
+        const custom = await this.redis.exists(key);
+        return ctx.reply(
+          threshold <= MIN_ACTION_CONFIDENCE
+            ? `📝 <b>Drafts are off in this chat</b>\n\nCreate requests are created right away.`
+            : `📝 <b>Create requests the AI is less than ${Math.round(threshold * 100)}% sure about are shown as a draft first</b>` +
+                `${custom ? '' : ' <i>(default)</i>'}`,
+          { parse_mode: 'HTML' },
+        );
+      } catch (err) {
+        console.error('Failed to update draft threshold:', err);
+        return ctx.reply('❌ <b>Error updating draft settings</b>', {
           parse_mode: 'HTML',
-          reply_markup: {
-            inline_keyboard: [
-              [
-                { text: '📋 Todo', callback_data: `setstatus_Todo_${issueIdentifier}` },
-                { text: '🔄 In Progress', callback_data: `setstatus_In Progress_${issueIdentifier}` },
-              ],
-              [
-                { text: '👀 In Review', callback_data: `setstatus_In Review_${issueIdentifier}` },
-                { text: '✅ Done', callback_data: `setstatus_Done_${issueIdentifier}` },
-              ],
-            ],
-          },
-        },
-      );
+        });
+      }
     });
 
-    // Handle status change from menu
-    this.bot.action(/^setstatus_(.+)_([A-Z]+-\d+)$/, async (ctx) => {
-      if (!this.isUserAuthorized(ctx.from?.username)) {
-        await ctx.answerCbQuery('❌ You are not authorized', { show_alert: true });
-        return;
+    // Turn a stretch of the conversation into a ticket
+    this.bot.command('summarize', async (ctx) => {
+      const denial = await this.checkPermission(
+        ctx.from?.username,
+        ctx.chat.id,
+        'create',
+      );
+      if (denial) {
+        return ctx.reply(denial, { parse_mode: 'HTML' });
+      }
+
+      const args = ctx.message.text.replace(/^\/summarize(@\S+)?/, '').trim();
+      const span = await this.selectHistorySpan(
+        ctx.chat.id,
+        args,
+        ctx.message.reply_to_message?.message_id,
+      );
+      if ('error' in span) {
+        return ctx.reply(span.error, { parse_mode: 'HTML' });
+      }
+      if (!span.length) {
+        const { ttlSeconds } = await this.getHistorySettings(ctx.chat.id);
+        return ctx.reply(
+          `❓ <b>Nothing to summarize</b>\n\nI only keep messages for ${this.formatWindow(ttlSeconds)} after the chat goes quiet. See /history.`,
+          { parse_mode: 'HTML' },
+        );
       }
-      const newStatus = ctx.match[1];
-      const issueIdentifier = ctx.match[2];
-      
-      await ctx.answerCbQuery('Updating status...');
-      
-      try {
-        const issueId = await this.getIssueIdFromIdentifier(issueIdentifier);
-        if (!issueId) {
-          await ctx.editMessageText(`❌ <b>Ticket ${issueIdentifier} not found</b>`, { parse_mode: 'HTML' });
-          return;
-        }
 
-        const stateId = await this.getStateIdByName(newStatus);
-        if (!stateId) {
-          await ctx.editMessageText(`❌ <b>Status "${newStatus}" not found</b>`, { parse_mode: 'HTML' });
+      const processingMsg = await ctx.reply(
+        `🤖 Summarizing ${span.length} message(s)...`,
+        { parse_mode: 'HTML' },
+      );
+      try {
+        const transcript = span
+          .map(
+            (h) =>
+              `[${new Date(h.timestamp * 1000).toISOString().slice(0, 16).replace('T', ' ')}] ${h.from}: ${h.text}`,
+          )
+          .join('\n');
+        const result = await this.aiService.summarizeDiscussion(
+          transcript,
+          await this.getTeamPromptContext(ctx.chat.id),
+        );
+        if (!result.ok) {
+          await ctx.telegram.editMessageText(
+            ctx.chat.id,
+            processingMsg.message_id,
+            undefined,
+            this.formatAIFailure(result.reason, result.issues),
+            { parse_mode: 'HTML' },
+          );
           return;
         }
 
-        const mutation = `
-          mutation {
-            issueUpdate(id: "${issueId}", input: { stateId: "${stateId}" }) {
-              success
-              issue { state { name } }
-            }
-          }`;
+        const token = crypto.randomBytes(6).toString('hex');
+        const pending: PendingDiscussionSummary = {
+          summary: result.value,
+          origin: this.draftOrigin(ctx, span[0].messageId),
+          messageCount: span.length,
+        };
+        await this.redis.setex(
+          this.discussionSummaryKey(token),
+          DISCUSSION_SUMMARY_TTL_SECONDS,
+          JSON.stringify(pending),
+        );
 
-        const res = await axios.post(
-          this.config.get('LINEAR_API_URL'),
-          { query: mutation },
+        const { actionItems } = result.value;
+        await ctx.telegram.editMessageText(
+          ctx.chat.id,
+          processingMsg.message_id,
+          undefined,
+          this.formatDiscussionSummary(pending),
           {
-            headers: {
-              Authorization: this.config.get('LINEAR_API_KEY'),
-              'Content-Type': 'application/json',
+            parse_mode: 'HTML',
+            reply_markup: {
+              inline_keyboard: [
+                [
+                  {
+                    text: '➕ Create ticket',
+                    callback_data: `sum_create_${token}`,
+                  },
+                ],
+                ...(actionItems.length > 1
+                  ? [
+                      [
+                        {
+                          text: `🧩 Split into ${actionItems.length} tickets`,
+                          callback_data: `sum_split_${token}`,
+                        },
+                      ],
+                    ]
+                  : []),
+                [{ text: '🗑️ Discard', callback_data: `sum_discard_${token}` }],
+              ],
             },
           },
         );
-
-        if (res.data.data?.issueUpdate?.success) {
-          await ctx.editMessageText(
-            `✅ <b>Ticket ${issueIdentifier} updated to "${newStatus}"</b>`,
-            { parse_mode: 'HTML' },
-          );
-        } else {
-          await ctx.editMessageText(`❌ <b>Failed to update status</b>`, { parse_mode: 'HTML' });
-        }
       } catch (err) {
-        console.error('Failed to update status from menu:', err);
-        await ctx.editMessageText(`❌ <b>Error updating status</b>`, { parse_mode: 'HTML' });
+        console.error('Failed to summarize discussion:', err);
+        await ctx.telegram.editMessageText(
+          ctx.chat.id,
+          processingMsg.message_id,
+          undefined,
+          '❌ <b>Error summarizing the discussion</b>',
+          {
+            parse_mode: 'HTML',
+          },
+        );
       }
     });
 
-    // Handle Done button callback - delete message and show minimal confirmation
-    this.bot.action(/^done_(.+)$/, async (ctx) => {
-      if (!this.isUserAuthorized(ctx.from?.username)) {
-        await ctx.answerCbQuery('❌ You are not authorized', { show_alert: true });
+    // Handle Create ticket / Split / Discard on a discussion summary
+    this.bot.action(/^sum_(create|split|discard)_([a-f0-9]+)$/, async (ctx) => {
+      const [, choice, token] = ctx.match;
+      const denial = await this.checkPermission(
+        ctx.from?.username,
+        ctx.chat!.id,
+        'create',
+      );
+      if (denial) {
+        await ctx.answerCbQuery(denial, { show_alert: true });
         return;
       }
-      const issueIdentifier = ctx.match[1];
-      const linearUrl = `https://linear.app/mobulalabs/issue/${issueIdentifier}`;
-      
+
+      // getdel so a double tap cannot create the tickets twice
+      const raw = await this.redis.getdel(this.discussionSummaryKey(token));
+      if (!raw) {
+        await ctx.answerCbQuery('This summary has expired', {
+          show_alert: true,
+        });
+        await ctx.editMessageReplyMarkup(undefined);
+        return;
+      }
+
+      const pending = JSON.parse(raw) as PendingDiscussionSummary;
+      const messageId = ctx.callbackQuery.message?.message_id;
+      if (choice === 'discard' || !messageId) {
+        await ctx.answerCbQuery('Summary discarded');
+        await ctx.editMessageReplyMarkup(undefined);
+        return;
+      }
+
+      const { summary, origin } = pending;
+      if (choice === 'create') {
+        await ctx.answerCbQuery('Creating ticket...');
+        const draft: TicketDraft = {
+          ...origin,
+          title: summary.title,
+          description: this.formatDiscussionDescription(summary),
+          assigneeId: null,
+          assigneeName: null,
+          status: null,
+          extra: {},
+          unknownLabels: [],
+        };
+        await this.showActionResult(
+          ctx,
+          messageId,
+          await this.submitDraft(draft),
+        );
+        return;
+      }
+
+      await ctx.answerCbQuery(
+        `Creating ${summary.actionItems.length} tickets...`,
+      );
+      const results: ActionResult[] = [];
+      for (const item of summary.actionItems) {
+        const assigneeId = item.assigneeName
+          ? await this.aiService.getUserIdByName(item.assigneeName)
+          : null;
+        const draft: TicketDraft = {
+          ...origin,
+          title: item.title,
+          description: `${item.description ? `${item.description}\n\n` : ''}**From the discussion "${summary.title}":**\n${summary.summary}`,
+          assigneeId,
+          assigneeName: assigneeId ? item.assigneeName : null,
+          status: null,
+          extra: {},
+          unknownLabels: [],
+        };
+        results.push(await this.submitDraft(draft));
+      }
+      await this.showCombinedResults(ctx, messageId, results);
+    });
+
+    // Set how much chat history is kept for AI context and /summarize (admin only)
+    this.bot.command('history', async (ctx) => {
+      const denial = await this.checkPermission(
+        ctx.from?.username,
+        ctx.chat.id,
+        'manage',
+      );
+      if (denial) {
+        return ctx.reply(denial, { parse_mode: 'HTML' });
+      }
+
+      const [sizeArg, retentionArg, ...extra] = ctx.message.text
+        .replace(/^\/history(@\S+)?/, '')
+        .trim()
+        .toLowerCase()
+        .split(/\s+/);
+      const key = this.historySettingsKey(ctx.chat.id);
+
       try {
-        await ctx.answerCbQuery('Done!');
-        // Delete the original message
-        await ctx.deleteMessage();
-        // Send a minimal confirmation
-        await ctx.reply(
-          `✅ <b>Done</b> — <a href="${linearUrl}">${issueIdentifier}</a>`,
-          { parse_mode: 'HTML', link_preview_options: { is_disabled: true } },
+        if (sizeArg === 'default') {
+          await this.redis.del(key);
+        } else if (sizeArg) {
+          const size = Number(sizeArg);
+          const ttlSeconds = retentionArg
+            ? this.parseDuration(retentionArg)
+            : null;
+          if (
+            !Number.isInteger(size) ||
+            size < 1 ||
+            size > MAX_CHAT_HISTORY_SIZE ||
+            (retentionArg && !ttlSeconds) ||
+            extra.length
+          ) {
+            return ctx.reply(HISTORY_USAGE, { parse_mode: 'HTML' });
+          }
+          await this.redis.hset(key, {
+            size,
+            ...(ttlSeconds ? { ttlSeconds } : {}),
+          });
+          // Apply a smaller window right away instead of on the next message
+          await this.redis.ltrim(this.chatHistoryKey(ctx.chat.id), 0, size - 1);
+        }
+
+        const { size, ttlSeconds } = await this.getHistorySettings(ctx.chat.id);
+        return ctx.reply(
+          `🗂️ <b>Chat history</b>\n\nKeeping the last <b>${size}</b> message(s), for ${this.formatWindow(ttlSeconds)} after the last one.\n` +
+            `<i>The AI sees at most ${CHAT_CONTEXT_MESSAGES} of them as context; /summarize can use all of them.</i>`,
+          { parse_mode: 'HTML' },
         );
       } catch (err) {
-        console.error('Failed to handle done action:', err);
-        await ctx.answerCbQuery('Could not process');
+        console.error('Failed to update chat history settings:', err);
+        return ctx.reply('❌ <b>Error updating chat history settings</b>', {
+          parse_mode: 'HTML',
+        });
       }
     });
 
-    // Handle Cancel button callback
-    this.bot.action(/^cancel_(.+)$/, async (ctx) => {
-      if (!this.isUserAuthorized(ctx.from?.username)) {
-        await ctx.answerCbQuery('❌ You are not authorized', { show_alert: true });
-        return;
+    // Morning digest of yesterday's ticket activity (admin only)
+    this.bot.command('digest', async (ctx) => {
+      const denial = await this.checkPermission(
+        ctx.from?.username,
+        ctx.chat.id,
+        'manage',
+      );
+      if (denial) {
+        return ctx.reply(denial, { parse_mode: 'HTML' });
       }
-      const issueId = ctx.match[1];
-      
+
+      const [subcommand = '', value, ...extra] = ctx.message.text
+        .replace(/^\/digest(@\S+)?/, '')
+        .trim()
+        .split(/\s+/);
+
       try {
-        const mutation = `
-          mutation {
-            issueArchive(id: "${issueId}") {
-              success
+        let settings = await this.digests.getSettings(ctx.chat.id);
+        switch (subcommand.toLowerCase()) {
+          case '':
+            break;
+          case 'on':
+          case 'off':
+            settings = await this.digests.updateSettings(ctx.chat.id, {
+              enabled: subcommand.toLowerCase() === 'on',
+            });
+            break;
+          case 'tz': {
+            if (
+              !value ||
+              extra.length ||
+              !this.digests.isValidTimezone(value)
+            ) {
+              return ctx.reply(DIGEST_USAGE, { parse_mode: 'HTML' });
             }
-          }`;
+            settings = await this.digests.updateSettings(ctx.chat.id, {
+              timezone: value,
+            });
+            break;
+          }
+          case 'now': {
+            const digest = await this.digests.buildDigest(
+              ctx.chat.id,
+              settings.timezone,
+            );
+            return ctx.reply(
+              digest ?? '☀️ <b>Nothing to report for yesterday</b>',
+              {
+                parse_mode: 'HTML',
+                link_preview_options: { is_disabled: true },
+              },
+            );
+          }
+          default: {
+            const time = this.digests.parseTime(subcommand);
+            if (!time || value) {
+              return ctx.reply(DIGEST_USAGE, { parse_mode: 'HTML' });
+            }
+            // Picking a time is taken as wanting the digest
+            settings = await this.digests.updateSettings(ctx.chat.id, {
+              time,
+              enabled: true,
+            });
+          }
+        }
 
-        const res = await axios.post(
-          this.config.get('LINEAR_API_URL'),
-          { query: mutation },
-          {
-            headers: {
-              Authorization: this.config.get('LINEAR_API_KEY'),
-              'Content-Type': 'application/json',
-            },
-          },
+        return ctx.reply(
+          settings.enabled
+            ? `☀️ <b>Daily digest is on</b>\n\nPosted every day at <b>${settings.time}</b> (${this.escapeHtml(settings.timezone)}) for the tickets created from this chat.`
+            : `☀️ <b>Daily digest is off in this chat</b>\n\nTurn it on with /digest on, or pick a time with /digest HH:MM.`,
+          { parse_mode: 'HTML' },
         );
+      } catch (err) {
+        console.error('Failed to update digest settings:', err);
+        return ctx.reply('❌ <b>Error updating digest settings</b>', {
+          parse_mode: 'HTML',
+        });
+      }
+    });
 
-        if (res.data.data?.issueArchive?.success) {
-          await ctx.answerCbQuery('Ticket cancelled!');
-          await ctx.editMessageText(
-            '🗑️ <b>Ticket Cancelled</b>\n\nThis ticket has been archived.',
+    // Per-state rules for nudging about tickets that do not move (admin only)
+    this.bot.command('stale', async (ctx) => {
+      const denial = await this.checkPermission(
+        ctx.from?.username,
+        ctx.chat.id,
+        'manage',
+      );
+      if (denial) {
+        return ctx.reply(denial, { parse_mode: 'HTML' });
+      }
+
+      const args = ctx.message.text.replace(/^\/stale(@\S+)?/, '').trim();
+
+      try {
+        if (args.toLowerCase() === 'default') {
+          await this.staleTickets.resetRules(ctx.chat.id);
+        } else if (args) {
+          // The state name can have spaces, the thresholds are the last words
+          const match = args.match(/^(.+?)\s+(off|\d+\w*(?:\s+\d+\w*)?)$/i);
+          if (!match) {
+            return ctx.reply(STALE_USAGE, { parse_mode: 'HTML' });
+          }
+          const [, state, thresholds] = match;
+          if (thresholds.toLowerCase() === 'off') {
+            await this.staleTickets.setRule(ctx.chat.id, state, null);
+          } else {
+            const [nudge, escalate] = thresholds.split(/\s+/);
+            const rule = this.staleTickets.parseThresholds(nudge, escalate);
+            if (!rule) {
+              return ctx.reply(STALE_USAGE, { parse_mode: 'HTML' });
+            }
+            await this.staleTickets.setRule(ctx.chat.id, state, rule);
+          }
+        }
+
+        const rules = await this.staleTickets.getRules(ctx.chat.id);
+        if (!rules.length) {
+          return ctx.reply(
+            '⏰ <b>Stale ticket nudges are off in this chat</b>',
             { parse_mode: 'HTML' },
           );
-          await this.redis.del(`issue:${issueId}`);
-        } else {
-          await ctx.answerCbQuery('Failed to cancel ticket');
         }
+        const lines = rules.map(
+          (rule) =>
+            `• <b>${this.escapeHtml(rule.state)}</b> — nudge after ${this.formatWindow(rule.nudgeAfterSeconds)}` +
+            (rule.escalateAfterSeconds
+              ? `, escalate after ${this.formatWindow(rule.escalateAfterSeconds)}`
+              : ''),
+        );
+        return ctx.reply(
+          `⏰ <b>Stale ticket nudges</b>\n\n${lines.join('\n')}\n\n<i>Counted from the ticket's last update in Linear.</i>`,
+          {
+            parse_mode: 'HTML',
+          },
+        );
       } catch (err) {
-        console.error('Failed to cancel ticket:', err);
-        await ctx.answerCbQuery('Error cancelling ticket');
+        console.error('Failed to update stale ticket rules:', err);
+        return ctx.reply('❌ <b>Error updating stale ticket rules</b>', {
+          parse_mode: 'HTML',
+        });
       }
     });
 
-    this.bot.catch((err) => {
-      console.error('Telegram bot error:', err);
-    });
+    // Assign roles globally (global admin only) or for this chat (chat admin)
+    this.bot.command('role', async (ctx) => {
+      const denial = await this.checkPermission(
+        ctx.from?.username,
+        ctx.chat.id,
+        'manage',
+      );
+      if (denial) {
+        return ctx.reply(denial, { parse_mode: 'HTML' });
+      }
 
-    try {
-      const botInfo = await this.bot.telegram.getMe();
-      this.botUsername = botInfo.username;
-      console.info(`Bot username: @${this.botUsername}`);
-      
-      // Retry logic for Railway deployments - wait for old instance to stop
-      const maxRetries = 5;
-      const retryDelayMs = 3000;
-      
-      for (let attempt = 1; attempt <= maxRetries; attempt++) {
-        try {
-          await this.bot.launch();
-          console.info(`Telegram bot @${this.botUsername} polling started.`);
-          break;
-        } catch (launchErr: unknown) {
-          const isConflict = launchErr instanceof Error && launchErr.message.includes('409');
-          if (isConflict && attempt < maxRetries) {
-            console.warn(`Bot launch attempt ${attempt}/${maxRetries} failed (conflict), retrying in ${retryDelayMs}ms...`);
-            await new Promise((resolve) => setTimeout(resolve, retryDelayMs));
-          } else {
-            throw launchErr;
+      const args = ctx.message.text.replace(/^\/role(@\S+)?/, '').trim();
+      const [subcommand, user, ...rest] = args.split(/\s+/);
+      const username = user?.replace('@', '');
+
+      try {
+        switch (subcommand?.toLowerCase()) {
+          case '': {
+            const assignments = await this.roles.listRoles(ctx.chat.id);
+            return ctx.reply(
+              `🔐 <b>Roles</b>\n\n<b>Global:</b>\n${this.formatRoleAssignments(assignments.global)}\n\n` +
+                `<b>This chat:</b>\n${this.formatRoleAssignments(assignments.chat)}`,
+              { parse_mode: 'HTML' },
+            );
+          }
+          case 'set': {
+            const [role, scope] = rest.map((r) => r.toLowerCase());
+            if (
+              !username ||
+              !role ||
+              !isRole(role) ||
+              (scope && scope !== 'chat')
+            ) {
+              return ctx.reply(ROLE_USAGE, { parse_mode: 'HTML' });
+            }
+            if (scope !== 'chat' && (await this.denyGlobalRoleChange(ctx))) {
+              return;
+            }
+            if (this.roles.isConfigAdmin(username)) {
+              return ctx.reply(
+                '❌ The configured admin always keeps the admin role.',
+                { parse_mode: 'HTML' },
+              );
+            }
+            await this.roles.setRole(
+              username,
+              role,
+              scope === 'chat' ? ctx.chat.id : undefined,
+            );
+            return ctx.reply(
+              `✅ @${this.escapeHtml(username)} is now <b>${role}</b> ${scope === 'chat' ? 'in this chat' : 'globally'}`,
+              { parse_mode: 'HTML' },
+            );
+          }
+          case 'remove': {
+            const [scope] = rest.map((r) => r.toLowerCase());
+            if (!username || (scope && scope !== 'chat')) {
+              return ctx.reply(ROLE_USAGE, { parse_mode: 'HTML' });
+            }
+            if (scope !== 'chat' && (await this.denyGlobalRoleChange(ctx))) {
+              return;
+            }
+            const removed = await this.roles.clearRole(
+              username,
+              scope === 'chat' ? ctx.chat.id : undefined,
+            );
+            return ctx.reply(
+              removed
+                ? `🗑️ Removed the ${scope === 'chat' ? 'chat' : 'global'} role of @${this.escapeHtml(username)}`
+                : `❓ @${this.escapeHtml(username)} has no ${scope === 'chat' ? 'chat' : 'global'} role`,
+              { parse_mode: 'HTML' },
+            );
           }
+          default:
+            return ctx.reply(ROLE_USAGE, { parse_mode: 'HTML' });
         }
+      } catch (err) {
+        console.error('Failed to manage roles:', err);
+        return ctx.reply('❌ <b>Error updating roles</b>', {
+          parse_mode: 'HTML',
+        });
       }
-    } catch (err: unknown) {
-      console.error('Failed to launch Telegram bot', err);
-    }
-  }
+    });
 
-  // Action handlers
-  private async handleEditAction(
-    ctx: Context,
-    messageId: number,
-    ticketIdentifier: string | null,
-    editField: string | null,
-    newValue: string | null,
-    assigneeName: string | null,
-  ): Promise<void> {
-    if (!ticketIdentifier) {
-      await ctx.telegram.editMessageText(
-        ctx.chat!.id,
-        messageId,
-        undefined,
-        '❌ <b>Could not identify the ticket</b>\n\nPlease specify the ticket (e.g., "edit MOB-1234")',
-        { parse_mode: 'HTML' },
-      );
-      return;
-    }
-
-    // If no specific field or "menu", show interactive menu
-    if (!editField || editField === 'menu') {
-      await ctx.telegram.editMessageText(
-        ctx.chat!.id,
-        messageId,
+    // Manage Telegram <-> Linear user mappings (global admin only)
+    this.bot.command('users', async (ctx) => {
+      const denial = await this.checkPermission(
+        ctx.from?.username,
         undefined,
-        `✏️ <b>Edit Ticket ${ticketIdentifier}</b>\n\nWhat would you like to edit?`,
-        { 
-          parse_mode: 'HTML',
-          reply_markup: {
-            inline_keyboard: [
-              [
-                { text: '📌 Title', callback_data: `editfield_title_${ticketIdentifier}` },
-                { text: '📝 Description', callback_data: `editfield_desc_${ticketIdentifier}` },
-              ],
-              [
-                { text: '👤 Assignee', callback_data: `editfield_assignee_${ticketIdentifier}` },
-                { text: '📊 Status', callback_data: `editfield_status_${ticketIdentifier}` },
-              ],
-              [
-                { text: '🔗 Open in Linear', url: `https://linear.app/mobulalabs/issue/${ticketIdentifier}` },
-              ],
-            ],
-          },
-        },
+        'manage',
       );
-      return;
-    }
-
-    // Direct edit with field and value
-    try {
-      const issueId = await this.getIssueIdFromIdentifier(ticketIdentifier);
-      if (!issueId) {
-        await ctx.telegram.editMessageText(
-          ctx.chat!.id,
-          messageId,
-          undefined,
-          `❌ <b>Ticket ${ticketIdentifier} not found</b>`,
-          { parse_mode: 'HTML' },
-        );
-        return;
+      if (denial) {
+        return ctx.reply(denial, { parse_mode: 'HTML' });
       }
 
-      let mutation = '';
-      let successField = '';
+      const args = ctx.message.text.replace(/^\/users(@\S+)?/, '').trim();
+      const [subcommand, ...rest] = args.split(/\s+/);
 
-      switch (editField) {
-        case 'title':
-          if (!newValue) {
-            await ctx.telegram.editMessageText(
-              ctx.chat!.id,
-              messageId,
-              undefined,
-              '❌ <b>Please provide a new title</b>',
+      try {
+        switch (subcommand?.toLowerCase()) {
+          case '': {
+            await this.userMappings.refresh(true);
+            const mappings = this.userMappings.all();
+            const lines = mappings.map((m) => this.formatUserMapping(m));
+            return ctx.reply(
+              `👥 <b>${mappings.length} mapped user(s)</b>\n\n${lines.join('\n\n')}`,
               { parse_mode: 'HTML' },
             );
-            return;
           }
-          const escapedTitle = newValue.replace(/"/g, '\\"');
-          mutation = `
-            mutation {
-              issueUpdate(id: "${issueId}", input: { title: "${escapedTitle}" }) {
-                success
-                issue { title }
-              }
-            }`;
-          successField = 'title';
-          break;
-
-        case 'description':
-          const escapedDesc = (newValue || '').replace(/"/g, '\\"');
-          mutation = `
-            mutation {
-              issueUpdate(id: "${issueId}", input: { description: "${escapedDesc}" }) {
-                success
-                issue { description }
-              }
-            }`;
-          successField = 'description';
-          break;
-
-        case 'assignee':
-          const assigneeId = assigneeName ? await this.aiService.getUserIdByName(assigneeName) : null;
-          if (!assigneeId) {
-            await ctx.telegram.editMessageText(
-              ctx.chat!.id,
-              messageId,
-              undefined,
-              `❌ <b>User "${assigneeName || newValue}" not found</b>`,
+          case 'add': {
+            const [telegramUsername, linearName, linearEmail, aliases] = rest;
+            if (
+              !telegramUsername ||
+              !linearName ||
+              !linearEmail?.includes('@')
+            ) {
+              return ctx.reply(USERS_USAGE, { parse_mode: 'HTML' });
+            }
+            const mapping: UserMapping = {
+              telegramUsername: telegramUsername.replace('@', ''),
+              linearName: linearName.toLowerCase(),
+              linearEmail,
+              aliases: (aliases ?? linearName)
+                .split(',')
+                .map((a) => a.trim().toLowerCase())
+                .filter(Boolean),
+            };
+            await this.userMappings.add(mapping);
+            return ctx.reply(
+              `✅ <b>User added</b>\n\n${this.formatUserMapping(mapping)}`,
               { parse_mode: 'HTML' },
             );
-            return;
           }
-          mutation = `
-            mutation {
-              issueUpdate(id: "${issueId}", input: { assigneeId: "${assigneeId}" }) {
-                success
-                issue { assignee { name } }
-              }
-            }`;
-          successField = 'assignee';
-          break;
+          case 'set': {
+            const [person, field, ...valueParts] = rest;
+            const value = valueParts.join(' ').trim();
+            const key = {
+              name: 'linearName',
+              email: 'linearEmail',
+              telegram: 'telegramUsername',
+            }[field?.toLowerCase() ?? ''] as
+              | 'linearName'
+              | 'linearEmail'
+              | 'telegramUsername'
+              | undefined;
+            if (!person || !key || !value) {
+              return ctx.reply(USERS_USAGE, { parse_mode: 'HTML' });
+            }
+            const updated = await this.userMappings.update(person, {
+              [key]: value.replace(/^@/, ''),
+            });
+            if (!updated) {
+              return ctx.reply(
+                `❌ <b>User "${this.escapeHtml(person)}" not found</b>`,
+                { parse_mode: 'HTML' },
+              );
+            }
+            return ctx.reply(
+              `✅ <b>User updated</b>\n\n${this.formatUserMapping(updated)}`,
+              { parse_mode: 'HTML' },
+            );
+          }
+          case 'remove': {
+            const [person] = rest;
+            if (!person) {
+              return ctx.reply(USERS_USAGE, { parse_mode: 'HTML' });
+            }
+            const removed = await this.userMappings.remove(person);
+            if (!removed) {
+              return ctx.reply(
+                `❌ <b>User "${this.escapeHtml(person)}" not found</b>`,
+                { parse_mode: 'HTML' },
+              );
+            }
+            return ctx.reply(
+              `🗑️ <b>Removed ${this.escapeHtml(removed.linearName)}</b> (@${this.escapeHtml(removed.telegramUsername)})`,
+              {
+                parse_mode: 'HTML',
+              },
+            );
+          }
+          default:
+            return ctx.reply(USERS_USAGE, { parse_mode: 'HTML' });
+        }
+      } catch (err) {
+        console.error('Failed to manage users:', err);
+        return ctx.reply('❌ <b>Error updating user mappings</b>', {
+          parse_mode: 'HTML',
+        });
+      }
+    });
 
-        case 'status':
-          const stateId = await this.getStateIdByName(newValue || '');
-          if (!stateId) {
-            await ctx.telegram.editMessageText(
-              ctx.chat!.id,
-              messageId,
-              undefined,
-              `❌ <b>Status "${newValue}" not found</b>\n\nAvailable: Todo, In Progress, In Review, Done`,
+    // Manage the aliases of a mapped user (global admin only)
+    this.bot.command('alias', async (ctx) => {
+      const denial = await this.checkPermission(
+        ctx.from?.username,
+        undefined,
+        'manage',
+      );
+      if (denial) {
+        return ctx.reply(denial, { parse_mode: 'HTML' });
+      }
+
+      const args = ctx.message.text.replace(/^\/alias(@\S+)?/, '').trim();
+      const [subcommand, person, ...aliasParts] = args.split(/\s+/);
+      const alias = aliasParts.join(' ').trim();
+
+      try {
+        if (subcommand === 'add' || subcommand === 'remove') {
+          if (!person || !alias) {
+            return ctx.reply(ALIAS_USAGE, { parse_mode: 'HTML' });
+          }
+          const updated =
+            subcommand === 'add'
+              ? await this.userMappings.addAlias(person, alias)
+              : await this.userMappings.removeAlias(person, alias);
+          if (!updated) {
+            return ctx.reply(
+              `❌ <b>User "${this.escapeHtml(person)}" not found</b>`,
               { parse_mode: 'HTML' },
             );
-            return;
           }
-          mutation = `
-            mutation {
-              issueUpdate(id: "${issueId}", input: { stateId: "${stateId}" }) {
-                success
-                issue { state { name } }
-              }
-            }`;
-          successField = 'status';
-          break;
+          return ctx.reply(
+            `✅ <b>Aliases updated</b>\n\n${this.formatUserMapping(updated)}`,
+            { parse_mode: 'HTML' },
+          );
+        }
 
-        default:
-          await ctx.telegram.editMessageText(
-            ctx.chat!.id,
-            messageId,
-            undefined,
-            '❌ <b>Unknown field to edit</b>',
+        if (!subcommand) {
+          return ctx.reply(ALIAS_USAGE, { parse_mode: 'HTML' });
+        }
+
+        await this.userMappings.refresh(true);
+        const mapping =
+          this.userMappings.findLinearUserByIdentifier(subcommand);
+        if (!mapping) {
+          return ctx.reply(
+            `❌ <b>User "${this.escapeHtml(subcommand)}" not found</b>`,
             { parse_mode: 'HTML' },
           );
-          return;
+        }
+        return ctx.reply(this.formatUserMapping(mapping), {
+          parse_mode: 'HTML',
+        });
+      } catch (err) {
+        console.error('Failed to manage aliases:', err);
+        return ctx.reply('❌ <b>Error updating aliases</b>', {
+          parse_mode: 'HTML',
+        });
       }
+    });
 
-      const res = await axios.post(
-        this.config.get('LINEAR_API_URL'),
-        { query: mutation },
-        {
-          headers: {
-            Authorization: this.config.get('LINEAR_API_KEY'),
-            'Content-Type': 'application/json',
-          },
-        },
+    // Dead-lettered webhook events (global admin only)
+    this.bot.command('deadletters', async (ctx) => {
+      const denial = await this.checkPermission(
+        ctx.from?.username,
+        undefined,
+        'manage',
       );
+      if (denial) {
+        return ctx.reply(denial, { parse_mode: 'HTML' });
+      }
 
-      if (res.data.data?.issueUpdate?.success) {
-        await ctx.telegram.editMessageText(
-          ctx.chat!.id,
-          messageId,
-          undefined,
-          `✅ <b>Ticket ${ticketIdentifier} ${successField} updated!</b>`,
-          { parse_mode: 'HTML' },
-        );
-      } else {
-        await ctx.telegram.editMessageText(
-          ctx.chat!.id,
-          messageId,
-          undefined,
-          `❌ <b>Failed to update ${successField}</b>`,
-          { parse_mode: 'HTML' },
-        );
+      const entries = await this.webhookService.listDeadLetters();
+      if (!entries.length) {
+        return ctx.reply('✅ <b>No failed webhook events</b>', {
+          parse_mode: 'HTML',
+        });
       }
-    } catch (err) {
-      console.error('Failed to edit ticket:', err);
-      await ctx.telegram.editMessageText(
-        ctx.chat!.id,
-        messageId,
-        undefined,
-        '❌ <b>Error editing ticket</b>',
-        { parse_mode: 'HTML' },
-      );
-    }
-  }
 
-  private async handleDeleteAction(
-    ctx: Context,
-    messageId: number,
-    ticketIdentifier: string | null,
-  ): Promise<void> {
-    if (!ticketIdentifier) {
-      await ctx.telegram.editMessageText(
-        ctx.chat!.id,
-        messageId,
+      await ctx.reply(`📭 <b>${entries.length} failed webhook event(s)</b>`, {
+        parse_mode: 'HTML',
+      });
+      for (const entry of entries.slice(0, DEAD_LETTER_LIST_LIMIT)) {
+        await ctx.reply(this.formatDeadLetter(entry), {
+          parse_mode: 'HTML',
+          reply_markup: { inline_keyboard: [this.deadLetterButtons(entry.id)] },
+        });
+      }
+    });
+
+    // Replay or discard a dead-lettered webhook event
+    this.bot.action(/^dlq_(replay|discard)_(.+)$/, async (ctx) => {
+      const denial = await this.checkPermission(
+        ctx.from?.username,
         undefined,
-        '❌ <b>Could not identify the ticket</b>\n\nPlease specify the ticket (e.g., "delete MOB-1234")',
-        { parse_mode: 'HTML' },
+        'manage',
       );
-      return;
-    }
-
-    try {
-      const issueId = await this.getIssueIdFromIdentifier(ticketIdentifier);
-      if (!issueId) {
-        await ctx.telegram.editMessageText(
-          ctx.chat!.id,
-          messageId,
-          undefined,
-          `❌ <b>Ticket ${ticketIdentifier} not found</b>`,
-          { parse_mode: 'HTML' },
-        );
+      if (denial) {
+        await ctx.answerCbQuery(denial, { show_alert: true });
         return;
       }
+      const [, operation, id] = ctx.match;
 
-      // Permanently delete the issue
-      const mutation = `
-        mutation {
-          issueDelete(id: "${issueId}") {
-            success
-          }
-        }`;
+      try {
+        if (operation === 'discard') {
+          const discarded = await this.webhookService.discardDeadLetter(id);
+          await ctx.answerCbQuery(discarded ? 'Discarded' : 'Already gone');
+          await ctx.editMessageText(
+            `🗑️ <b>Webhook event discarded</b>\n<code>${this.escapeHtml(id)}</code>`,
+            { parse_mode: 'HTML' },
+          );
+          return;
+        }
 
-      const res = await axios.post(
-        this.config.get('LINEAR_API_URL'),
-        { query: mutation },
-        {
-          headers: {
-            Authorization: this.config.get('LINEAR_API_KEY'),
-            'Content-Type': 'application/json',
-          },
-        },
-      );
+        await ctx.answerCbQuery('Replaying...');
+        const result = await this.webhookService.replayDeadLetter(id);
+        if (!result.found) {
+          await ctx.editMessageText(
+            `❓ <b>Webhook event not found</b>\n<code>${this.escapeHtml(id)}</code>`,
+            { parse_mode: 'HTML' },
+          );
+        } else if (result.success) {
+          await ctx.editMessageText(
+            `✅ <b>Webhook event replayed</b>\n<code>${this.escapeHtml(id)}</code>`,
+            { parse_mode: 'HTML' },
+          );
+        } else {
+          await ctx.editMessageText(
+            `❌ <b>Replay failed</b>\n<code>${this.escapeHtml(id)}</code>\n\n${this.escapeHtml(result.error ?? 'Unknown error')}`,
+            {
+              parse_mode: 'HTML',
+              reply_markup: { inline_keyboard: [this.deadLetterButtons(id)] },
+            },
+          );
+        }
+      } catch (err) {
+        console.error('Failed to handle dead letter action:', err);
+        await ctx.answerCbQuery('Error processing the event');
+      }
+    });
 
-      if (res.data.data?.issueDelete?.success) {
-        await ctx.telegram.editMessageText(
-          ctx.chat!.id,
-          messageId,
-          undefined,
-          `🗑️ <b>Ticket ${ticketIdentifier} Permanently Deleted</b>\n\n⚠️ This action cannot be undone.`,
-          { parse_mode: 'HTML' },
-        );
-        await this.redis.del(`issue:${issueId}`);
-        await this.redis.srem(`chat:${ctx.chat!.id}:issues`, issueId);
-      } else {
-        await ctx.telegram.editMessageText(
-          ctx.chat!.id,
-          messageId,
-          undefined,
-          `❌ <b>Failed to delete ticket ${ticketIdentifier}</b>`,
-          { parse_mode: 'HTML' },
+    // Handle mentions for AI-powered ticket operations, with the photos the message carries (several for an album)
+    const handleMessage = async (
+      ctx: MessageContext,
+      photoFileIds: string[],
+    ) => {
+      const message = ctx.message;
+      
+      // Extract text from message or caption (for photos)
+      let text =
+        'text' in message
+          ? message.text
+          : 'caption' in message
+            ? message.caption
+            : null;
+      const entities =
+        'entities' in message
+          ? message.entities
+          : 'caption_entities' in message
+            ? message.caption_entities
+            : [];
+
+      // Voice and video notes for the bot are transcribed, then handled like a text message that mentions it
+      const voiceNote =
+        'voice' in message
+          ? message.voice
+          : 'video_note' in message
+            ? message.video_note
+            : undefined;
+      let transcript: string | null = null;
+      if (voiceNote && this.isVoiceNoteForBot(ctx, text, entities)) {
+        transcript = await this.transcribeVoiceNote(
+          ctx,
+          voiceNote,
+          'voice' in message ? 'voice' : 'video',
         );
+        if (!transcript) return;
+        text = text ? `${text}\n${transcript}` : transcript;
+      }
+      
+      // Store message in chat history for context and /summarize (size and retention set with /history)
+      if (text) {
+        const chatHistoryKey = this.chatHistoryKey(ctx.chat.id);
+        const entry: ChatHistoryEntry = {
+          from: ctx.from?.username || ctx.from?.first_name || 'Unknown',
+          text: text,
+          timestamp: message.date,
+          messageId: message.message_id,
+        };
+        const { size, ttlSeconds } = await this.getHistorySettings(ctx.chat.id);
+        await this.redis.lpush(chatHistoryKey, JSON.stringify(entry));
+        await this.redis.ltrim(chatHistoryKey, 0, size - 1);
+        await this.redis.expire(chatHistoryKey, ttlSeconds); // Expire after the chat goes quiet
+      }
+      
+      if (!text) {
+        return;
       }
-    } catch (err) {
-      console.error('Failed to delete ticket:', err);
-      await ctx.telegram.editMessageText(
-        ctx.chat!.id,
-        messageId,
-        undefined,
-        '❌ <b>Error deleting ticket</b>',
-        { parse_mode: 'HTML' },
-      );
-    }
-  }
-
-  private async handleCancelAction(
-    ctx: Context,
-    messageId: number,
-    ticketIdentifier: string | null,
-  ): Promise<void> {
-    if (!ticketIdentifier) {
-      await ctx.telegram.editMessageText(
-        ctx.chat!.id,
-        messageId,
-        undefined,
-        '❌ <b>Could not identify the ticket</b>\n\nPlease specify the ticket (e.g., "cancel MOB-1234")',
-        { parse_mode: 'HTML' },
-      );
-      return;
-    }
 
-    try {
-      // First get the issue ID from identifier
-      const issueId = await this.getIssueIdFromIdentifier(ticketIdentifier);
-      if (!issueId) {
-        await ctx.telegram.editMessageText(
-          ctx.chat!.id,
-          messageId,
-          undefined,
-          `❌ <b>Ticket ${ticketIdentifier} not found</b>`,
-          { parse_mode: 'HTML' },
-        );
+      // Replies to a "Reply to this message with the new title/description" prompt
+      const replyTo =
+        'reply_to_message' in message ? message.reply_to_message : undefined;
+      if (
+        replyTo &&
+        (await this.handlePendingEditReply(ctx, replyTo.message_id, text))
+      ) {
         return;
       }
 
-      const mutation = `
-        mutation {
-          issueArchive(id: "${issueId}") {
-            success
-          }
-        }`;
+      const botMentioned =
+        transcript !== null || this.isBotMentionedInText(text, entities);
 
-      const res = await axios.post(
-        this.config.get('LINEAR_API_URL'),
-        { query: mutation },
-        {
-          headers: {
-            Authorization: this.config.get('LINEAR_API_KEY'),
-            'Content-Type': 'application/json',
-          },
-        },
-      );
+      // Plain replies to a ticket card or "Ticket Updated" message become Linear comments
+      if (
+        replyTo &&
+        !botMentioned &&
+        (await this.handleCommentReply(ctx, replyTo.message_id, text))
+      ) {
+        return;
+      }
 
-      if (res.data.data?.issueArchive?.success) {
-        await ctx.telegram.editMessageText(
-          ctx.chat!.id,
-          messageId,
-          undefined,
-          `🗑️ <b>Ticket ${ticketIdentifier} Cancelled</b>\n\nThis ticket has been archived.`,
+      if (!botMentioned) {
+        return;
+      }
+
+      const username = ctx.from?.username;
+      const denial = await this.checkPermission(username, ctx.chat.id, 'view');
+      if (denial) {
+        return ctx.reply(denial, { parse_mode: 'HTML' });
+      }
+
+      // Remove bot mention from message
+      const cleanMessage = this.removeBotMention(text);
+      if (!cleanMessage.trim()) {
+        return ctx.reply(
+          `💡 <b>How to use me:</b>\n\n` +
+          `📝 <b>Create:</b> <i>"create a ticket for Sandy to fix the login bug"</i>\n` +
+          `✏️ <b>Edit:</b> <i>"edit this ticket"</i> or <i>"edit MOB-1234"</i>\n` +
+          `❌ <b>Cancel:</b> <i>"cancel this ticket"</i>\n` +
+          `👤 <b>Assign:</b> <i>"assign this ticket to Cyril"</i>\n` +
+          `📊 <b>Status:</b> <i>"set this ticket to In Progress"</i>`,
           { parse_mode: 'HTML' },
         );
-        await this.redis.del(`issue:${issueId}`);
-      } else {
-        await ctx.telegram.editMessageText(
-          ctx.chat!.id,
-          messageId,
-          undefined,
-          `❌ <b>Failed to cancel ticket ${ticketIdentifier}</b>`,
-          { parse_mode: 'HTML' },
+      }
+
+      const processingMsg = await ctx.reply('🤖 Analyzing your request...', { parse_mode: 'HTML' });
+
+      try {
+        // Get recent tickets from this chat for context
+        const chatIssuesKey = `chat:${ctx.chat.id}:issues`;
+        const recentIssueIds = await this.redis.smembers(chatIssuesKey);
+        const recentTickets: string[] = [];
+        
+        for (const issueId of recentIssueIds.slice(0, 5)) {
+          const issueData = await this.redis.hgetall(`issue:${issueId}`);
+          if (issueData?.identifier) {
+            recentTickets.push(`${issueData.identifier}: ${issueData.title || 'No title'}`);
+          }
+        }
+
+        // Get chat history for context
+        const chatHistory = await this.getChatHistory(
+          ctx.chat.id,
+          CHAT_CONTEXT_MESSAGES,
+        );
+
+        // Get reply-to message if exists
+        let replyContext = '';
+        const replyToMessage = (message as Message.TextMessage & { reply_to_message?: Message.TextMessage }).reply_to_message;
+        if (replyToMessage && 'text' in replyToMessage) {
+          replyContext = `\n\n[Replying to message from ${replyToMessage.from?.username || replyToMessage.from?.first_name || 'Unknown'}]: "${replyToMessage.text}"`;
+        }
+
+        // Build context string
+        let contextString = '';
+        if (chatHistory.length > 1) {
+          contextString = '\n\n--- Recent chat history ---\n';
+          contextString += chatHistory
+            .slice(0, -1)
+            .map((h) => `${h.from}: ${h.text}`)
+            .join('\n');
+          contextString += '\n--- End of history ---';
+        }
+
+        // Add info about who is sending the message (for "me", "myself" resolution)
+        const senderUsername = ctx.from?.username || '';
+        const senderInfo = senderUsername ? `\n\n[Message sent by: @${senderUsername}]` : '';
+        
+        const fullContext = cleanMessage + replyContext + contextString + senderInfo;
+
+        // Download photos (the largest size of each), for the AI and for the upload to Linear
+        const images: Buffer[] = [];
+        for (const fileId of photoFileIds) {
+          try {
+            const fileLink = await ctx.telegram.getFileLink(fileId);
+            const imageResponse = await axios.get<ArrayBuffer>(fileLink.href, {
+              responseType: 'arraybuffer',
+            });
+            images.push(Buffer.from(imageResponse.data));
+          } catch (imgErr) {
+            console.error('Failed to download image:', imgErr);
+          }
+        }
+
+        // Read an attached log, text, JSON or PDF file: the AI gets the relevant excerpts, Linear gets the whole file
+        const document = 'document' in message ? message.document : undefined;
+        const attachment = document
+          ? await this.readAttachedDocument(ctx, document)
+          : null;
+
+        // Parse the command using AI (with optional images)
+        const teamContext = await this.getTeamPromptContext(ctx.chat.id);
+        const result = await this.aiService.parseCommands(
+          fullContext + (attachment?.context ?? ''),
+          recentTickets,
+          images.map((image) => image.toString('base64')),
+          teamContext,
+        );
+
+        if (!result.ok && result.reason === 'unavailable') {
+          // AI service failed (API error, quota exceeded, etc.) - send error via DM
+          await this.sendErrorViaDM(
+            ctx,
+            processingMsg.message_id,
+            '🚫 <b>Service temporarily unavailable</b>\n\nThe AI service is currently unavailable. This could be due to:\n• API quota exceeded\n• Service temporarily down\n\nPlease try again later or contact the admin.',
+          );
+          return;
+        }
+
+        if (!result.ok) {
+          await ctx.telegram.editMessageText(
+            ctx.chat.id,
+            processingMsg.message_id,
+            undefined,
+            this.formatAIFailure(result.reason, result.issues),
+            { parse_mode: 'HTML' },
+          );
+          return;
+        }
+
+        // Keep what was actually said on tickets created from a voice or video note
+        if (transcript) {
+          for (const command of result.value.filter(
+            (c) => c.action === 'create',
+          )) {
+            command.description =
+              `${command.description ?? ''}\n\n**${'voice' in message ? 'Voice' : 'Video'} note transcript:**\n> ${transcript.replace(/\n/g, '\n> ')}`.trim();
+          }
+        }
+
+        // Screenshots go to Linear as real files, embedded below the AI's description
+        const creates = result.value.filter((c) => c.action === 'create');
+        if (images.length && creates.length) {
+          const embeds = await this.uploadImagesToLinear(images);
+          for (const command of creates) {
+            command.description =
+              `${command.description ?? ''}\n\n${embeds}`.trim();
+          }
+        }
+        if (attachment?.file && creates.length) {
+          const link = await this.uploadDocumentToLinear(attachment.file);
+          for (const command of creates) {
+            command.description =
+              `${command.description ?? ''}\n\n${link}`.trim();
+          }
+        }
+
+        await this.runActions(ctx, processingMsg.message_id, result.value);
+      } catch (err) {
+        console.error('Error processing command:', err);
+        // Send error via DM instead of public channel
+        await this.sendErrorViaDM(
+          ctx,
+          processingMsg.message_id,
+          '❌ <b>An error occurred</b>\n\nSomething went wrong while processing your request. Please try again later.',
         );
       }
-    } catch (err) {
-      console.error('Failed to cancel ticket:', err);
-      await ctx.telegram.editMessageText(
+    };
+
+    this.bot.on('message', async (ctx) => {
+      const message = ctx.message;
+      const photo =
+        'photo' in message
+          ? message.photo[message.photo.length - 1]
+          : undefined;
+      const mediaGroupId =
+        'media_group_id' in message ? message.media_group_id : undefined;
+      if (!mediaGroupId) {
+        await handleMessage(ctx, photo ? [photo.file_id] : []);
+        return;
+      }
+
+      // Collect the album and handle it once the last photo is in
+      let group = this.mediaGroups.get(mediaGroupId);
+      if (!group) {
+        const collected: PendingMediaGroup = { ctx, photos: [] };
+        this.mediaGroups.set(mediaGroupId, collected);
+        setTimeout(() => {
+          this.mediaGroups.delete(mediaGroupId);
+          const fileIds = collected.photos
+            .sort((a, b) => a.messageId - b.messageId)
+            .map((p) => p.fileId);
+          handleMessage(collected.ctx, fileIds).catch((err) => {
+            console.error('Failed to handle album:', err);
+          });
+        }, MEDIA_GROUP_WAIT_MS);
+        group = collected;
+      }
+      if (photo) {
+        group.photos.push({
+          messageId: message.message_id,
+          fileId: photo.file_id,
+        });
+      }
+      if ('caption' in message && message.caption) {
+        group.ctx = ctx;
+      }
+    });
+
+    // Handle Edit button callback - show menu
+    this.bot.action(/^edit_(.+)$/, async (ctx) => {
+      const issueIdentifier = ctx.match[1];
+      const draftToken = this.parseDraftRef(issueIdentifier);
+      const denial = await this.checkPermission(
+        ctx.from?.username,
         ctx.chat!.id,
-        messageId,
-        undefined,
-        '❌ <b>Error cancelling ticket</b>',
-        { parse_mode: 'HTML' },
+        draftToken ? 'create' : 'edit',
       );
-    }
-  }
+      if (denial) {
+        await ctx.answerCbQuery(denial, { show_alert: true });
+        return;
+      }
 
-  private async handleAssignAction(
-    ctx: Context,
-    messageId: number,
-    ticketIdentifier: string | null,
-    assigneeName: string | null,
-  ): Promise<void> {
-    if (!ticketIdentifier) {
-      await ctx.telegram.editMessageText(
+      if (draftToken) {
+        await this.openDraftEditMenu(ctx, draftToken);
+        return;
+      }
+      
+      await ctx.answerCbQuery();
+      await ctx.reply(
+        `✏️ <b>Edit Ticket ${issueIdentifier}</b>\n\nWhat would you like to edit?`,
+        { 
+          parse_mode: 'HTML',
+          reply_markup: {
+            inline_keyboard: [
+              [
+                { text: '📌 Title', callback_data: `editfield_title_${issueIdentifier}` },
+                { text: '📝 Description', callback_data: `editfield_desc_${issueIdentifier}` },
+              ],
+              [
+                { text: '👤 Assignee', callback_data: `editfield_assignee_${issueIdentifier}` },
+                { text: '📊 Status', callback_data: `editfield_status_${issueIdentifier}` },
+              ],
+              [
+                { text: '🔗 Open in Linear', url: `https://linear.app/mobulalabs/issue/${issueIdentifier}` },
+              ],
+            ],
+          },
+        },
+      );
+    });
+
+    // Handle edit field selection - Title
+    this.bot.action(/^editfield_title_(.+)$/, async (ctx) => {
+      const issueIdentifier = ctx.match[1];
+      const isDraft = !!this.parseDraftRef(issueIdentifier);
+      const denial = await this.checkPermission(
+        ctx.from?.username,
         ctx.chat!.id,
-        messageId,
-        undefined,
-        '❌ <b>Could not identify the ticket</b>\n\nPlease specify the ticket (e.g., "assign MOB-1234 to Cyril")',
+        isDraft ? 'create' : 'edit',
+      );
+      if (denial) {
+        await ctx.answerCbQuery(denial, { show_alert: true });
+        return;
+      }
+      await ctx.answerCbQuery();
+      await ctx.editMessageText(
+        isDraft
+          ? `📌 <b>Edit Title of the draft</b>\n\nReply to this message with the new title within 5 minutes (reply <i>cancel</i> to abort).`
+          : `📌 <b>Edit Title for ${issueIdentifier}</b>\n\nReply to this message with the new title within 5 minutes (reply <i>cancel</i> to abort), or use:\n<code>@${this.botUsername} edit titre ${issueIdentifier} : New Title</code>`,
+        {
+          parse_mode: 'HTML',
+          reply_markup: {
+            inline_keyboard: [
+              [{ text: '✖️ Cancel edit', callback_data: 'canceledit' }],
+            ],
+          },
+        },
+      );
+      // Store pending edit in Redis, keyed on the prompt message the user has to reply to
+      await this.storePendingEdit(ctx, 'title', issueIdentifier);
+    });
+
+    // Handle edit field selection - Description
+    this.bot.action(/^editfield_desc_(.+)$/, async (ctx) => {
+      const issueIdentifier = ctx.match[1];
+      const isDraft = !!this.parseDraftRef(issueIdentifier);
+      const denial = await this.checkPermission(
+        ctx.from?.username,
+        ctx.chat!.id,
+        isDraft ? 'create' : 'edit',
+      );
+      if (denial) {
+        await ctx.answerCbQuery(denial, { show_alert: true });
+        return;
+      }
+      await ctx.answerCbQuery();
+      await ctx.editMessageText(
+        isDraft
+          ? `📝 <b>Edit Description of the draft</b>\n\nReply to this message with the new description within 5 minutes (reply <i>cancel</i> to abort).`
+          : `📝 <b>Edit Description for ${issueIdentifier}</b>\n\nReply to this message with the new description within 5 minutes (reply <i>cancel</i> to abort), or use:\n<code>@${this.botUsername} edit description ${issueIdentifier} : New description</code>`,
+        {
+          parse_mode: 'HTML',
+          reply_markup: {
+            inline_keyboard: [
+              [{ text: '✖️ Cancel edit', callback_data: 'canceledit' }],
+            ],
+          },
+        },
+      );
+      await this.storePendingEdit(ctx, 'description', issueIdentifier);
+    });
+
+    // Handle Cancel edit button on a pending title/description prompt
+    this.bot.action('canceledit', async (ctx) => {
+      const promptMessageId = ctx.callbackQuery.message?.message_id;
+      if (!promptMessageId) {
+        await ctx.answerCbQuery();
+        return;
+      }
+
+      const pending = await this.getPendingEdit(ctx.chat!.id, promptMessageId);
+      if (pending && pending.userId !== ctx.from.id) {
+        await ctx.answerCbQuery(
+          'Only the person who started this edit can cancel it',
+          { show_alert: true },
+        );
+        return;
+      }
+
+      await this.redis.del(this.pendingEditKey(ctx.chat!.id, promptMessageId));
+      await ctx.answerCbQuery('Edit cancelled');
+      await ctx.editMessageText(
+        pending
+          ? `✖️ <b>Edit of ${this.formatEditTarget(pending.identifier)} cancelled</b>`
+          : '✖️ <b>Edit cancelled</b>',
         { parse_mode: 'HTML' },
       );
-      return;
-    }
+    });
 
-    if (!assigneeName) {
-      await ctx.telegram.editMessageText(
+    // Handle edit field selection - Assignee
+    this.bot.action(/^editfield_assignee_(.+)$/, async (ctx) => {
+      const issueIdentifier = ctx.match[1];
+      const isDraft = !!this.parseDraftRef(issueIdentifier);
+      const denial = await this.checkPermission(
+        ctx.from?.username,
         ctx.chat!.id,
-        messageId,
-        undefined,
-        '❌ <b>Could not identify the assignee</b>\n\nPlease specify who to assign (e.g., "assign MOB-1234 to Cyril")',
+        isDraft ? 'create' : 'assign',
+      );
+      if (denial) {
+        await ctx.answerCbQuery(denial, { show_alert: true });
+        return;
+      }
+      await ctx.answerCbQuery();
+      // Drafts are not in Linear yet, so the new assignee comes as a reply like a title or description
+      if (isDraft) {
+        await ctx.editMessageText(
+          `👤 <b>Change Assignee of the draft</b>\n\nReply to this message with the assignee's name within 5 minutes (reply <i>cancel</i> to abort).`,
+          {
+            parse_mode: 'HTML',
+            reply_markup: {
+              inline_keyboard: [
+                [{ text: '✖️ Cancel edit', callback_data: 'canceledit' }],
+              ],
+            },
+          },
+        );
+        await this.storePendingEdit(ctx, 'assignee', issueIdentifier);
+        return;
+      }
+      await ctx.editMessageText(
+        `👤 <b>Change Assignee for ${issueIdentifier}</b>\n\nUse:\n<code>@${this.botUsername} assign ${issueIdentifier} to [name]</code>\n\nExample: <code>@${this.botUsername} assign ${issueIdentifier} to florent</code>`,
         { parse_mode: 'HTML' },
       );
-      return;
+    });
+
+    // Handle edit field selection - Status
+    this.bot.action(/^editfield_status_(.+)$/, async (ctx) => {
+      const issueIdentifier = ctx.match[1];
+      const denial = await this.checkPermission(
+        ctx.from?.username,
+        ctx.chat!.id,
+        this.parseDraftRef(issueIdentifier) ? 'create' : 'status',
+      );
+      if (denial) {
+        await ctx.answerCbQuery(denial, { show_alert: true });
+        return;
+      }
+      await ctx.answerCbQuery();
+      await ctx.reply(
+        `📊 <b>Change Status for ${this.formatEditTarget(issueIdentifier)}</b>\n\nSelect new status:`,
+        { 
+          parse_mode: 'HTML',
+          reply_markup: {
+            inline_keyboard: [
+              [
+                { text: '📋 Todo', callback_data: `setstatus_Todo_${issueIdentifier}` },
+                { text: '🔄 In Progress', callback_data: `setstatus_In Progress_${issueIdentifier}` },
+              ],
+              [
+                { text: '👀 In Review', callback_data: `setstatus_In Review_${issueIdentifier}` },
+                { text: '✅ Done', callback_data: `setstatus_Done_${issueIdentifier}` },
+              ],
+            ],
+          },
+        },
+      );
+    });
+
+    // Handle status change from menu
+    this.bot.action(
+      /^setstatus_(.+)_([A-Z]+-\d+|draft-[a-f0-9]+)$/,
+      async (ctx) => {
+        const newStatus = ctx.match[1];
+        const issueIdentifier = ctx.match[2];
+        const draftToken = this.parseDraftRef(issueIdentifier);
+        const denial = await this.checkPermission(
+          ctx.from?.username,
+          ctx.chat!.id,
+          draftToken ? 'create' : 'status',
+        );
+        if (denial) {
+          await ctx.answerCbQuery(denial, { show_alert: true });
+          return;
+        }
+
+        await ctx.answerCbQuery('Updating status...');
+
+        if (draftToken) {
+          const text = await this.applyDraftEdit(
+            ctx,
+            draftToken,
+            'status',
+            newStatus,
+          );
+          await ctx.editMessageText(text, { parse_mode: 'HTML' });
+          return;
+        }
+
+        // Quick actions on a /tickets list keep the list in place and confirm in a separate message
+        const listMessageId = ctx.callbackQuery.message?.message_id;
+        const listQuery = listMessageId
+          ? await this.getTicketListQuery(ctx.chat!.id, listMessageId)
+          : null;
+        const respond = (text: string) =>
+          listQuery
+            ? ctx.reply(text, { parse_mode: 'HTML' })
+            : ctx.editMessageText(text, { parse_mode: 'HTML' });
+
+        try {
+          const issueId = await this.getIssueIdFromIdentifier(issueIdentifier);
+          if (!issueId) {
+            await respond(`❌ <b>Ticket ${issueIdentifier} not found</b>`);
+            return;
+          }
+
+          const stateId = await this.getStateIdByName(newStatus, ctx.chat!.id);
+          if (!stateId) {
+            await respond(`❌ <b>Status "${newStatus}" not found</b>`);
+            return;
+          }
+
+          const updated = await this.linearClient.updateIssue(issueId, {
+            stateId,
+          });
+
+          if (updated) {
+            await respond(
+              `✅ <b>Ticket ${issueIdentifier} updated to "${newStatus}"</b>`,
+            );
+            if (listQuery) {
+              await this.showTicketList(ctx, listQuery, listQuery.page);
+            }
+          } else {
+            await respond(`❌ <b>Failed to update status</b>`);
+          }
+        } catch (err) {
+          console.error('Failed to update status from menu:', err);
+          await respond(`❌ <b>Error updating status</b>`);
+        }
+      },
+    );
+
+    // Handle Done button callback - delete message and show minimal confirmation
+    this.bot.action(/^done_(.+)$/, async (ctx) => {
+      const denial = await this.checkPermission(
+        ctx.from?.username,
+        ctx.chat!.id,
+        'view',
+      );
+      if (denial) {
+        await ctx.answerCbQuery(denial, { show_alert: true });
+        return;
+      }
+      const issueIdentifier = ctx.match[1];
+      const linearUrl = `https://linear.app/mobulalabs/issue/${issueIdentifier}`;
+      
+      try {
+        await ctx.answerCbQuery('Done!');
+        // Delete the original message
+        await ctx.deleteMessage();
+        // Send a minimal confirmation
+        await ctx.reply(
+          `✅ <b>Done</b> — <a href="${linearUrl}">${issueIdentifier}</a>`,
+          { parse_mode: 'HTML', link_preview_options: { is_disabled: true } },
+        );
+      } catch (err) {
+        console.error('Failed to handle done action:', err);
+        await ctx.answerCbQuery('Could not process');
+      }
+    });
+
+    // Handle Cancel button callback - ask for confirmation in a separate card
+    this.bot.action(/^cancel_(.+)$/, async (ctx) => {
+      const denial = await this.checkPermission(
+        ctx.from?.username,
+        ctx.chat!.id,
+        'cancel',
+      );
+      if (denial) {
+        await ctx.answerCbQuery(denial, { show_alert: true });
+        return;
+      }
+      const issueId = ctx.match[1];
+      const identifier =
+        (await this.redis.hget(`issue:${issueId}`, 'identifier')) ||
+        'this ticket';
+
+      await ctx.answerCbQuery();
+      const confirmation = await this.askDestructiveConfirmation(
+        ctx,
+        'cancel',
+        issueId,
+        identifier,
+      );
+      await ctx.reply(confirmation.text, {
+        parse_mode: 'HTML',
+        reply_markup: { inline_keyboard: confirmation.keyboard ?? [] },
+      });
+    });
+
+    // Handle Confirm/Abort on a cancel/delete confirmation card
+    this.bot.action(/^destroy_(confirm|abort)_([a-f0-9]+)$/, async (ctx) => {
+      const [, decision, token] = ctx.match;
+      const raw = await this.redis.get(this.destructiveActionKey(token));
+      if (!raw) {
+        await ctx.answerCbQuery('This confirmation has expired', {
+          show_alert: true,
+        });
+        await ctx.editMessageText(
+          '⌛ <b>Confirmation expired</b>\n\nNothing was changed.',
+          { parse_mode: 'HTML' },
+        );
+        return;
+      }
+
+      const pending = JSON.parse(raw) as PendingDestructiveAction;
+      if (pending.userId !== ctx.from.id) {
+        await ctx.answerCbQuery(
+          'Only the person who asked for this can confirm it',
+          { show_alert: true },
+        );
+        return;
+      }
+
+      const denial = await this.checkPermission(
+        ctx.from?.username,
+        ctx.chat!.id,
+        pending.action,
+      );
+      if (denial) {
+        await ctx.answerCbQuery(denial, { show_alert: true });
+        return;
+      }
+
+      await this.redis.del(this.destructiveActionKey(token));
+      if (decision === 'abort') {
+        await ctx.answerCbQuery('Aborted');
+        await ctx.editMessageText(
+          `✖️ <b>${pending.identifier} was not ${pending.action === 'cancel' ? 'cancelled' : 'deleted'}</b>`,
+          {
+            parse_mode: 'HTML',
+          },
+        );
+        return;
+      }
+
+      await ctx.answerCbQuery(
+        pending.action === 'cancel' ? 'Cancelling...' : 'Deleting...',
+      );
+      await this.runDestructiveAction(ctx, pending);
+    });
+
+    // Handle Create/Discard on a ticket draft
+    this.bot.action(/^draft_(create|discard)_([a-f0-9]+)$/, async (ctx) => {
+      const [, decision, token] = ctx.match;
+      const denial = await this.checkPermission(
+        ctx.from?.username,
+        ctx.chat!.id,
+        'create',
+      );
+      if (denial) {
+        await ctx.answerCbQuery(denial, { show_alert: true });
+        return;
+      }
+
+      // getdel so a double tap cannot create the ticket twice
+      const raw = await this.redis.getdel(this.ticketDraftKey(token));
+      if (!raw) {
+        await ctx.answerCbQuery('This draft has expired', { show_alert: true });
+        await ctx.editMessageReplyMarkup(undefined);
+        return;
+      }
+
+      const draft = JSON.parse(raw) as TicketDraft;
+      if (decision === 'discard') {
+        await ctx.answerCbQuery('Draft discarded');
+        await ctx.editMessageText(
+          `🗑️ <b>Draft discarded</b>\n\n📌 ${this.escapeHtml(draft.title)}`,
+          { parse_mode: 'HTML' },
+        );
+        return;
+      }
+
+      await ctx.answerCbQuery('Creating ticket...');
+      const messageId = ctx.callbackQuery.message?.message_id;
+      const result = await this.submitDraft(draft);
+      if (messageId) {
+        await this.showActionResult(ctx, messageId, result);
+      }
+    });
+
+    // Handle the choice on a "possible duplicate" card
+    this.bot.action(
+      /^dup_(create|comment|abort)_([a-f0-9]+)(?:_(\d+))?$/,
+      async (ctx) => {
+        const [, choice, token, index] = ctx.match;
+        const denial = await this.checkPermission(
+          ctx.from?.username,
+          ctx.chat!.id,
+          choice === 'comment' ? 'comment' : 'create',
+        );
+        if (denial) {
+          await ctx.answerCbQuery(denial, { show_alert: true });
+          return;
+        }
+
+        // getdel so a double tap cannot create the ticket twice
+        const raw = await this.redis.getdel(this.duplicateChoiceKey(token));
+        if (!raw) {
+          await ctx.answerCbQuery('This choice has expired', {
+            show_alert: true,
+          });
+          await ctx.editMessageReplyMarkup(undefined);
+          return;
+        }
+
+        const { draft, duplicates } = JSON.parse(raw) as PendingDuplicateChoice;
+        const chosenBy = ctx.from?.username
+          ? `@${ctx.from.username}`
+          : ctx.from?.first_name || 'Unknown';
+
+        if (choice === 'abort') {
+          await ctx.answerCbQuery('Aborted');
+          await ctx.editMessageText(
+            `✖️ <b>Ticket not created</b>\n\n📌 ${this.escapeHtml(draft.title)}\n` +
+              `🙋 <b>Requested by:</b> ${this.formatRequester(draft.requester)} · aborted by ${chosenBy}`,
+            { parse_mode: 'HTML' },
+          );
+          return;
+        }
+
+        if (choice === 'comment') {
+          const duplicate = duplicates[Number(index)];
+          if (!duplicate) {
+            await ctx.answerCbQuery('Ticket not found', { show_alert: true });
+            return;
+          }
+          await ctx.answerCbQuery(`Commenting on ${duplicate.identifier}...`);
+          await this.commentInsteadOfCreating(ctx, draft, duplicate);
+          return;
+        }
+
+        await ctx.answerCbQuery('Creating ticket...');
+        const messageId = ctx.callbackQuery.message?.message_id;
+        const result = await this.createFromDraft(draft);
+        if (result.status === 'success') {
+          result.text += `\n\n<i>Created despite possible duplicates, chosen by ${chosenBy}</i>`;
+        }
+        if (messageId) {
+          await this.showActionResult(ctx, messageId, result);
+        }
+      },
+    );
+
+    // Snooze buttons on stale ticket nudges and escalations, members only since they silence the admin chat too
+    this.bot.action(/^stale_snooze_(1d|3d|1w)_(.+)$/, async (ctx) => {
+      const denial = await this.checkPermission(
+        ctx.from?.username,
+        ctx.chat!.id,
+        'status',
+      );
+      if (denial) {
+        await ctx.answerCbQuery(denial, { show_alert: true });
+        return;
+      }
+      const [, option, issueId] = ctx.match;
+      const { label, seconds } = STALE_SNOOZE_OPTIONS[option];
+
+      try {
+        await this.staleTickets.snooze(issueId, seconds);
+        await ctx.answerCbQuery(`Snoozed for ${label}`);
+        await ctx.editMessageReplyMarkup({
+          inline_keyboard: [
+            [
+              {
+                text: `😴 Snoozed for ${label} by ${ctx.from.first_name}`,
+                callback_data: 'stale_snoozed',
+              },
+            ],
+          ],
+        });
+      } catch (err) {
+        console.error('Failed to snooze stale ticket:', err);
+        await ctx.answerCbQuery('Error snoozing the ticket');
+      }
+    });
+
+    this.bot.action('stale_snoozed', async (ctx) => {
+      await ctx.answerCbQuery();
+    });
+
+    // Handle Undo after a cancel/delete
+    this.bot.action(/^undo_([a-f0-9]+)$/, async (ctx) => {
+      const token = ctx.match[1];
+      const raw = await this.redis.get(this.undoKey(token));
+      if (!raw) {
+        await ctx.answerCbQuery('The undo window has passed', {
+          show_alert: true,
+        });
+        await ctx.editMessageReplyMarkup(undefined);
+        return;
+      }
+
+      const undoable = JSON.parse(raw) as UndoableAction;
+      const denial = await this.checkPermission(
+        ctx.from?.username,
+        ctx.chat!.id,
+        undoable.action,
+      );
+      if (denial) {
+        await ctx.answerCbQuery(denial, { show_alert: true });
+        return;
+      }
+
+      try {
+        if (!(await this.linearClient.unarchiveIssue(undoable.issueId))) {
+          await ctx.answerCbQuery('Failed to restore the ticket', {
+            show_alert: true,
+          });
+          return;
+        }
+
+        await this.redis.del(this.undoKey(token));
+        if (Object.keys(undoable.snapshot).length) {
+          await this.redis.hset(`issue:${undoable.issueId}`, undoable.snapshot);
+          if (undoable.snapshot.chatId) {
+            await this.redis.sadd(
+              `chat:${undoable.snapshot.chatId}:issues`,
+              undoable.issueId,
+            );
+          }
+        }
+
+        await ctx.answerCbQuery('Restored!');
+        await ctx.editMessageText(
+          `↩️ <b>Ticket ${undoable.identifier} restored</b>`,
+          { parse_mode: 'HTML' },
+        );
+      } catch (err) {
+        console.error('Failed to undo ticket action:', err);
+        await ctx.answerCbQuery('Error restoring ticket');
+      }
+    });
+
+    // Inline mode: "@bot MOB-1234" or "@bot login bug" in any chat offers ticket cards to share
+    this.bot.on('inline_query', async (ctx) => {
+      const role = await this.roles.getRole(ctx.from.username);
+      if (!hasPermission(role, 'view')) {
+        await ctx.answerInlineQuery([], {
+          cache_time: 0,
+          is_personal: true,
+          button: {
+            text: '❌ You are not authorized to use this bot',
+            start_parameter: 'unauthorized',
+          },
+        });
+        return;
+      }
+
+      const text = ctx.inlineQuery.query.trim();
+      if (!text) {
+        await ctx.answerInlineQuery([], { cache_time: 0, is_personal: true });
+        return;
+      }
+
+      try {
+        const issues = await this.findInlineIssues(text);
+        await ctx.answerInlineQuery(
+          issues.map((issue) => this.formatInlineResult(issue)),
+          { cache_time: INLINE_QUERY_CACHE_SECONDS, is_personal: true },
+        );
+      } catch (err) {
+        console.error('Failed to answer inline query:', err);
+        await ctx.answerInlineQuery([], { cache_time: 0, is_personal: true });
+      }
+    });
+
+    this.bot.catch((err) => {
+      console.error('Telegram bot error:', err);
+    });
+
+    try {
+      const botInfo = await this.bot.telegram.getMe();
+      this.botUsername = botInfo.username;
+      console.info(`Bot username: @${this.botUsername}`);
+      
+      // Retry logic for Railway deployments - wait for old instance to stop
+      const maxRetries = 5;
+      const retryDelayMs = 3000;
+      
+      for (let attempt = 1; attempt <= maxRetries; attempt++) {
+        try {
+          await this.bot.launch();
+          console.info(`Telegram bot @${this.botUsername} polling started.`);
+          break;
+        } catch (launchErr: unknown) {
+          const isConflict = launchErr instanceof Error && launchErr.message.includes('409');
+          if (isConflict && attempt < maxRetries) {
+            console.warn(`Bot launch attempt ${attempt}/${maxRetries} failed (conflict), retrying in ${retryDelayMs}ms...`);
+            await new Promise((resolve) => setTimeout(resolve, retryDelayMs));
+          } else {
+            throw launchErr;
+          }
+        }
+      }
+    } catch (err: unknown) {
+      console.error('Failed to launch Telegram bot', err);
+    }
+  }
+
+  /**
+   * Upload photos to Linear and return the markdown that embeds them
+   * Photos that fail to upload are left out
+   */
+  private async uploadImagesToLinear(images: Buffer[]): Promise<string> {
+    const embeds: string[] = [];
+    for (const [i, image] of images.entries()) {
+      const name = images.length > 1 ? `Screenshot ${i + 1}` : 'Screenshot';
+      try {
+        const assetUrl = await this.linearClient.uploadFile(
+          image,
+          'image/jpeg',
+          `telegram-photo-${Date.now()}-${i + 1}.jpg`,
+        );
+        if (assetUrl) embeds.push(`![${name}](${assetUrl})`);
+      } catch (err) {
+        console.error('Failed to upload image to Linear:', err);
+      }
+    }
+    return embeds.join('\n');
+  }
+
+  /**
+   * Download a document sent with a request and build the prompt context for it
+   * `file` is null when the document cannot be read, so it is not attached to the ticket either
+   */
+  private async readAttachedDocument(
+    ctx: Context,
+    document: {
+      file_id: string;
+      file_name?: string;
+      mime_type?: string;
+      file_size?: number;
+    },
+  ): Promise<{
+    context: string;
+    file: { data: Buffer; fileName: string; mimeType: string } | null;
+  }> {
+    const fileName = document.file_name || 'attachment';
+    const kind = this.documents.kindOf(fileName, document.mime_type);
+    if (!kind) {
+      return {
+        context: `\n\n[A file "${fileName}" was attached but this type of file cannot be read]`,
+        file: null,
+      };
+    }
+
+    const maxBytes = this.config.get<number>('MAX_DOCUMENT_BYTES');
+    if (document.file_size && document.file_size > maxBytes) {
+      console.log(
+        `[LinearBot] Skipping ${fileName}: ${document.file_size} bytes is over MAX_DOCUMENT_BYTES`,
+      );
+      return {
+        context: `\n\n[A file "${fileName}" was attached but is too large to read]`,
+        file: null,
+      };
+    }
+
+    let data: Buffer;
+    try {
+      const fileLink = await ctx.telegram.getFileLink(document.file_id);
+      const response = await axios.get<ArrayBuffer>(fileLink.href, {
+        responseType: 'arraybuffer',
+        maxContentLength: maxBytes,
+      });
+      data = Buffer.from(response.data);
+    } catch (err) {
+      console.error('Failed to download document:', err);
+      return {
+        context: `\n\n[A file "${fileName}" was attached but could not be downloaded]`,
+        file: null,
+      };
+    }
+
+    const file = {
+      data,
+      fileName,
+      mimeType: document.mime_type || 'application/octet-stream',
+    };
+    try {
+      const extracted = await this.documents.extract(data, kind);
+      return {
+        context:
+          `\n\n--- Attached file: ${fileName} (${extracted.lineCount} lines, the full file is added to the ticket) — relevant excerpts ---\n` +
+          `${extracted.excerpt}\n--- End of attached file ---`,
+        file,
+      };
+    } catch (err) {
+      console.error(`Failed to read text from ${fileName}:`, err);
+      return {
+        context: `\n\n[A file "${fileName}" was attached but its text could not be read]`,
+        file,
+      };
+    }
+  }
+
+  /**
+   * Upload a document to Linear and return the markdown link to it, or a plain note when the upload fails
+   */
+  private async uploadDocumentToLinear(file: {
+    data: Buffer;
+    fileName: string;
+    mimeType: string;
+  }): Promise<string> {
+    try {
+      const assetUrl = await this.linearClient.uploadFile(
+        file.data,
+        file.mimeType,
+        file.fileName,
+      );
+      if (assetUrl) return `📎 [${file.fileName}](${assetUrl})`;
+    } catch (err) {
+      console.error('Failed to upload document to Linear:', err);
+    }
+    return `📎 ${file.fileName} (upload failed, see the Telegram message)`;
+  }
+
+  /**
+   * Voice and video notes are only transcribed when meant for the bot: in a private chat, as a reply to
+   * one of its messages, or with a caption that mentions it
+   */
+  private isVoiceNoteForBot(
+    ctx: Context,
+    caption: string | null | undefined,
+    entities: { type: string; offset: number; length: number }[] | undefined,
+  ): boolean {
+    if (ctx.chat?.type === 'private') return true;
+    const message = ctx.message as
+      | { reply_to_message?: { from?: { username?: string } } }
+      | undefined;
+    if (
+      this.botUsername &&
+      message?.reply_to_message?.from?.username === this.botUsername
+    )
+      return true;
+    return !!caption && this.isBotMentionedInText(caption, entities);
+  }
+
+  /**
+   * Download a voice or video note and turn it into text
+   * Replies with the reason and returns null when it cannot be transcribed
+   */
+  private async transcribeVoiceNote(
+    ctx: Context,
+    note: { file_id: string; duration: number; mime_type?: string },
+    kind: 'voice' | 'video',
+  ): Promise<string | null> {
+    const denial = await this.checkPermission(
+      ctx.from?.username,
+      ctx.chat!.id,
+      'view',
+    );
+    if (denial) {
+      await ctx.reply(denial, { parse_mode: 'HTML' });
+      return null;
+    }
+
+    if (!this.stt) {
+      await ctx.reply(
+        `🎙️ <b>${kind === 'voice' ? 'Voice' : 'Video'} notes are not enabled</b>\n\nPlease type your request instead.`,
+        {
+          parse_mode: 'HTML',
+        },
+      );
+      return null;
+    }
+
+    const maxSeconds = this.config.get<number>('MAX_VOICE_NOTE_SECONDS');
+    if (note.duration > maxSeconds) {
+      await ctx.reply(
+        `🎙️ <b>That ${kind} note is too long</b>\n\nI can transcribe up to ${this.formatWindow(maxSeconds)}.`,
+        {
+          parse_mode: 'HTML',
+        },
+      );
+      return null;
+    }
+
+    try {
+      await ctx.sendChatAction('typing');
+      const fileLink = await ctx.telegram.getFileLink(note.file_id);
+      const audioResponse = await axios.get<ArrayBuffer>(fileLink.href, {
+        responseType: 'arraybuffer',
+      });
+      const transcript = await this.stt.transcribe({
+        audio: Buffer.from(audioResponse.data),
+        fileName: kind === 'voice' ? 'voice.ogg' : 'video_note.mp4',
+        mimeType:
+          note.mime_type ?? (kind === 'voice' ? 'audio/ogg' : 'video/mp4'),
+        language: this.config.get<string>('STT_LANGUAGE') || undefined,
+      });
+      if (!transcript) {
+        await ctx.reply(
+          `🎙️ <b>I couldn't hear anything in that ${kind} note</b>`,
+          { parse_mode: 'HTML' },
+        );
+        return null;
+      }
+
+      console.log(
+        `[LinearBot] Transcribed ${kind} note (${note.duration}s) with ${this.stt.name}: "${transcript}"`,
+      );
+      return transcript;
+    } catch (err) {
+      console.error(`Failed to transcribe ${kind} note:`, err);
+      await ctx.reply(
+        `❌ <b>Could not transcribe that ${kind} note</b>\n\nPlease try again or type your request.`,
+        { parse_mode: 'HTML' },
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Run the actions parsed from one message in order. A single action gets its usual result
+   * message; several get one combined card, followed by a confirmation card per cancel/delete.
+   */
+  private async runActions(
+    ctx: Context,
+    messageId: number,
+    commands: ParsedCommand[],
+  ): Promise<void> {
+    if (commands.length === 1) {
+      await this.showActionResult(
+        ctx,
+        messageId,
+        await this.runAction(ctx, commands[0]),
+      );
+      return;
+    }
+
+    const results: ActionResult[] = [];
+    for (const command of commands) {
+      results.push(await this.runAction(ctx, command));
+    }
+    await this.showCombinedResults(ctx, messageId, results);
+  }
+
+  /**
+   * Turn a message into one card listing how each action went. Pending actions and tickets with buttons
+   * or replies-as-comments get their own card below it, and private failures go to the sender's DM.
+   */
+  private async showCombinedResults(
+    ctx: Context,
+    messageId: number,
+    results: ActionResult[],
+  ): Promise<void> {
+    const succeeded = results.filter((r) => r.status === 'success').length;
+    const lines = results.map((r, i) => {
+      const summary = r.viaDM
+        ? 'Details sent to you privately'
+        : (r.summary ??
+          r.text.split('\n')[0].replace(/^(✅|❌|❓|⚠️|✏️)\s*/u, ''));
+      return `${i + 1}. ${ACTION_RESULT_ICONS[r.status]} ${summary}`;
+    });
+    await ctx.telegram.editMessageText(
+      ctx.chat!.id,
+      messageId,
+      undefined,
+      `🧾 <b>${succeeded}/${results.length} actions done</b>\n\n${lines.join('\n')}`,
+      { parse_mode: 'HTML', link_preview_options: { is_disabled: true } },
+    );
+
+    for (const result of results) {
+      if (result.viaDM) {
+        await this.sendErrorViaDM(ctx, null, result.text);
+        continue;
+      }
+      const ownCard =
+        result.status === 'pending' ||
+        (result.status === 'success' && (result.keyboard || result.issueId));
+      if (!ownCard) continue;
+
+      const sent = await ctx.reply(result.text, {
+        parse_mode: 'HTML',
+        link_preview_options: { is_disabled: true },
+        reply_markup: { inline_keyboard: result.keyboard ?? [] },
+      });
+      if (result.issueId) {
+        await this.linkMessageToIssue(
+          ctx.chat!.id,
+          sent.message_id,
+          result.issueId,
+        );
+      }
+    }
+  }
+
+  private async runAction(
+    ctx: Context,
+    command: ParsedCommand,
+  ): Promise<ActionResult> {
+    if (command.confidence < MIN_ACTION_CONFIDENCE) {
+      return {
+        status: 'failure',
+        text:
+          `❌ <b>Could not understand your request</b>\n\nTry something like:\n` +
+          `<i>"Create a ticket for Sandy to fix the login bug"</i>\n` +
+          `<i>"Cancel this ticket"</i>\n` +
+          `<i>"Assign MOB-1234 to Cyril"</i>`,
+        summary: 'Could not understand this part of the request',
+      };
+    }
+
+    const denial = await this.checkPermission(
+      ctx.from?.username,
+      ctx.chat!.id,
+      command.action,
+    );
+    if (denial) {
+      return { status: 'failure', text: denial };
+    }
+
+    try {
+      switch (command.action) {
+        case 'edit':
+          return await this.handleEditAction(
+            ctx,
+            command.ticketIdentifier,
+            command.editField,
+            command.newValue,
+            command.assigneeName,
+            command,
+          );
+        case 'cancel':
+          return await this.handleCancelAction(ctx, command.ticketIdentifier);
+        case 'delete':
+          return await this.handleDeleteAction(ctx, command.ticketIdentifier);
+        case 'assign':
+          return await this.handleAssignAction(
+            command.ticketIdentifier,
+            command.assigneeName,
+          );
+        case 'status':
+          return await this.handleStatusAction(
+            ctx,
+            command.ticketIdentifier,
+            command.newStatus,
+          );
+        case 'create':
+        default:
+          return await this.handleCreateAction(ctx, command);
+      }
+    } catch (err) {
+      console.error(`Error running ${command.action} action:`, err);
+      return {
+        status: 'failure',
+        text: `❌ <b>Error running ${command.action} action</b>`,
+      };
+    }
+  }
+
+  private async showActionResult(
+    ctx: Context,
+    messageId: number,
+    result: ActionResult,
+  ): Promise<void> {
+    if (result.viaDM) {
+      await this.sendErrorViaDM(ctx, messageId, result.text);
+      return;
+    }
+
+    await ctx.telegram.editMessageText(
+      ctx.chat!.id,
+      messageId,
+      undefined,
+      result.text,
+      {
+        parse_mode: 'HTML',
+        link_preview_options: { is_disabled: true },
+        reply_markup: result.keyboard
+          ? { inline_keyboard: result.keyboard }
+          : undefined,
+      },
+    );
+    if (result.issueId) {
+      await this.linkMessageToIssue(ctx.chat!.id, messageId, result.issueId);
+    }
+  }
+
+  // Action handlers
+  private async handleEditAction(
+    ctx: Context,
+    ticketIdentifier: string | null,
+    editField: string | null,
+    newValue: string | null,
+    assigneeName: string | null,
+    attributes?: TicketAttributes,
+  ): Promise<ActionResult> {
+    if (!ticketIdentifier) {
+      return {
+        status: 'failure',
+        text: '❌ <b>Could not identify the ticket</b>\n\nPlease specify the ticket (e.g., "edit MOB-1234")',
+      };
+    }
+
+    // If no specific field or "menu", show interactive menu
+    if (!editField || editField === 'menu') {
+      return {
+        status: 'success',
+        text: `✏️ <b>Edit Ticket ${ticketIdentifier}</b>\n\nWhat would you like to edit?`,
+        summary: `✏️ Edit menu for <b>${ticketIdentifier}</b> — tap ✏️ Edit on the ticket to open it`,
+        keyboard: [
+          [
+            {
+              text: '📌 Title',
+              callback_data: `editfield_title_${ticketIdentifier}`,
+            },
+            {
+              text: '📝 Description',
+              callback_data: `editfield_desc_${ticketIdentifier}`,
+            },
+          ],
+          [
+            {
+              text: '👤 Assignee',
+              callback_data: `editfield_assignee_${ticketIdentifier}`,
+            },
+            {
+              text: '📊 Status',
+              callback_data: `editfield_status_${ticketIdentifier}`,
+            },
+          ],
+          [
+            {
+              text: '🔗 Open in Linear',
+              url: `https://linear.app/mobulalabs/issue/${ticketIdentifier}`,
+            },
+          ],
+        ],
+      };
+    }
+
+    // Direct edit with field and value
+    try {
+      const issueId = await this.getIssueIdFromIdentifier(ticketIdentifier);
+      if (!issueId) {
+        return {
+          status: 'failure',
+          text: `❌ <b>Ticket ${ticketIdentifier} not found</b>`,
+        };
+      }
+
+      let input: IssueUpdateInput = {};
+      let successField = '';
+
+      switch (editField) {
+        case 'title':
+          if (!newValue) {
+            return {
+              status: 'failure',
+              text: '❌ <b>Please provide a new title</b>',
+            };
+          }
+          input = { title: newValue };
+          successField = 'title';
+          break;
+
+        case 'description':
+          input = { description: newValue || '' };
+          successField = 'description';
+          break;
+
+        case 'assignee':
+          const assigneeId = assigneeName ? await this.aiService.getUserIdByName(assigneeName) : null;
+          if (!assigneeId) {
+            return {
+              status: 'failure',
+              text: `❌ <b>User "${assigneeName || newValue}" not found</b>`,
+            };
+          }
+          input = { assigneeId };
+          successField = 'assignee';
+          break;
+
+        case 'status':
+          const stateId = await this.getStateIdByName(
+            newValue || '',
+            ctx.chat!.id,
+          );
+          if (!stateId) {
+            return {
+              status: 'failure',
+              text: `❌ <b>Status "${newValue}" not found</b>\n\nAvailable: Todo, In Progress, In Review, Done`,
+            };
+          }
+          input = { stateId };
+          successField = 'status';
+          break;
+
+        case 'priority':
+          if (attributes?.priority == null) {
+            return {
+              status: 'failure',
+              text: '❌ <b>Please say which priority the ticket should have</b>',
+            };
+          }
+          input = { priority: attributes.priority };
+          successField = 'priority';
+          break;
+
+        case 'labels': {
+          const { labels, unknown } = await this.resolveLabels(
+            attributes?.labels ?? [],
+            ctx.chat!.id,
+          );
+          if (!labels.length) {
+            return {
+              status: 'failure',
+              text: `❌ <b>No matching labels</b>\n\nUnknown: ${this.escapeHtml(unknown.join(', ') || 'none given')}`,
+            };
+          }
+          input = { labelIds: labels.map((l) => l.id) };
+          successField = 'labels';
+          break;
+        }
+
+        case 'estimate': {
+          const estimate =
+            attributes?.estimate ??
+            (newValue && !isNaN(Number(newValue)) ? Number(newValue) : null);
+          if (estimate === null) {
+            return {
+              status: 'failure',
+              text: '❌ <b>Please provide a new estimate</b>',
+            };
+          }
+          input = { estimate };
+          successField = 'estimate';
+          break;
+        }
+
+        case 'dueDate':
+          if (!attributes?.dueDate) {
+            return {
+              status: 'failure',
+              text: '❌ <b>Please provide a new due date</b>',
+            };
+          }
+          input = { dueDate: attributes.dueDate };
+          successField = 'due date';
+          break;
+
+        default:
+          return { status: 'failure', text: '❌ <b>Unknown field to edit</b>' };
+      }
+
+      const updated = await this.linearClient.updateIssue(issueId, input);
+      if (updated) {
+        return {
+          status: 'success',
+          text: `✅ <b>Ticket ${ticketIdentifier} ${successField} updated!</b>`,
+        };
+      }
+      return {
+        status: 'failure',
+        text: `❌ <b>Failed to update ${successField}</b>`,
+      };
+    } catch (err) {
+      console.error('Failed to edit ticket:', err);
+      return { status: 'failure', text: '❌ <b>Error editing ticket</b>' };
+    }
+  }
+
+  private async handleDeleteAction(
+    ctx: Context,
+    ticketIdentifier: string | null,
+  ): Promise<ActionResult> {
+    if (!ticketIdentifier) {
+      return {
+        status: 'failure',
+        text: '❌ <b>Could not identify the ticket</b>\n\nPlease specify the ticket (e.g., "delete MOB-1234")',
+      };
+    }
+
+    try {
+      const issueId = await this.getIssueIdFromIdentifier(ticketIdentifier);
+      if (!issueId) {
+        return {
+          status: 'failure',
+          text: `❌ <b>Ticket ${ticketIdentifier} not found</b>`,
+        };
+      }
+
+      return await this.askDestructiveConfirmation(
+        ctx,
+        'delete',
+        issueId,
+        ticketIdentifier,
+      );
+    } catch (err) {
+      console.error('Failed to delete ticket:', err);
+      return { status: 'failure', text: '❌ <b>Error deleting ticket</b>' };
+    }
+  }
+
+  private async handleCancelAction(
+    ctx: Context,
+    ticketIdentifier: string | null,
+  ): Promise<ActionResult> {
+    if (!ticketIdentifier) {
+      return {
+        status: 'failure',
+        text: '❌ <b>Could not identify the ticket</b>\n\nPlease specify the ticket (e.g., "cancel MOB-1234")',
+      };
+    }
+
+    try {
+      // First get the issue ID from identifier
+      const issueId = await this.getIssueIdFromIdentifier(ticketIdentifier);
+      if (!issueId) {
+        return {
+          status: 'failure',
+          text: `❌ <b>Ticket ${ticketIdentifier} not found</b>`,
+        };
+      }
+
+      return await this.askDestructiveConfirmation(
+        ctx,
+        'cancel',
+        issueId,
+        ticketIdentifier,
+      );
+    } catch (err) {
+      console.error('Failed to cancel ticket:', err);
+      return { status: 'failure', text: '❌ <b>Error cancelling ticket</b>' };
+    }
+  }
+
+  private destructiveActionKey(token: string): string {
+    return `destructive_action:${token}`;
+  }
+
+  private undoKey(token: string): string {
+    return `undo:${token}`;
+  }
+
+  private get undoWindowSeconds(): number {
+    return this.config.get<number>('UNDO_WINDOW_SECONDS');
+  }
+
+  private formatWindow(seconds: number): string {
+    if (seconds < 120) return `${seconds} seconds`;
+    if (seconds < 2 * 60 * 60) return `${Math.round(seconds / 60)} minutes`;
+    if (seconds < 2 * 24 * 60 * 60)
+      return `${Math.round(seconds / 3600)} hours`;
+    return `${Math.round(seconds / 86400)} days`;
+  }
+
+  /**
+   * Build the Confirm/Abort card for a cancel or delete
+   * Nothing happens to the ticket until the requester confirms
+   */
+  private async askDestructiveConfirmation(
+    ctx: Context,
+    action: DestructiveAction,
+    issueId: string,
+    identifier: string,
+  ): Promise<ActionResult> {
+    const token = crypto.randomBytes(6).toString('hex');
+    const pending: PendingDestructiveAction = {
+      action,
+      issueId,
+      identifier,
+      userId: ctx.from!.id,
+    };
+    await this.redis.setex(
+      this.destructiveActionKey(token),
+      CONFIRMATION_WINDOW_SECONDS,
+      JSON.stringify(pending),
+    );
+
+    const consequence =
+      action === 'cancel'
+        ? 'The ticket will be archived.'
+        : "The ticket will be deleted and moved to Linear's trash.";
+    const text =
+      `⚠️ <b>${action === 'cancel' ? 'Cancel' : 'Delete'} ${identifier}?</b>\n\n` +
+      `${consequence} You can undo it for ${this.formatWindow(this.undoWindowSeconds)} afterwards.\n\n` +
+      `<i>This confirmation expires in ${this.formatWindow(CONFIRMATION_WINDOW_SECONDS)}.</i>`;
+    return {
+      status: 'pending',
+      text,
+      summary: `⚠️ <b>${action === 'cancel' ? 'Cancel' : 'Delete'} ${identifier}</b> needs confirmation below`,
+      keyboard: [
+        [
+          { text: '✅ Confirm', callback_data: `destroy_confirm_${token}` },
+          { text: '✖️ Abort', callback_data: `destroy_abort_${token}` },
+        ],
+      ],
+    };
+  }
+
+  /**
+   * Archive or delete a confirmed ticket and turn the confirmation card into an Undo card
+   */
+  private async runDestructiveAction(
+    ctx: Context,
+    pending: PendingDestructiveAction,
+  ): Promise<void> {
+    const { action, issueId, identifier } = pending;
+
+    try {
+      const success =
+        action === 'cancel'
+          ? await this.linearClient.archiveIssue(issueId)
+          : await this.linearClient.deleteIssue(issueId);
+      if (!success) {
+        await ctx.editMessageText(
+          `❌ <b>Failed to ${action} ticket ${identifier}</b>`,
+          { parse_mode: 'HTML' },
+        );
+        return;
+      }
+
+      const snapshot = await this.redis.hgetall(`issue:${issueId}`);
+      const token = crypto.randomBytes(6).toString('hex');
+      const undoable: UndoableAction = {
+        action,
+        issueId,
+        identifier,
+        snapshot,
+      };
+      await this.redis.setex(
+        this.undoKey(token),
+        this.undoWindowSeconds,
+        JSON.stringify(undoable),
+      );
+
+      // Undo puts both back from the snapshot
+      await this.redis.del(`issue:${issueId}`);
+      await this.redis.srem(
+        `chat:${snapshot.chatId ?? ctx.chat!.id}:issues`,
+        issueId,
+      );
+
+      await ctx.editMessageText(
+        action === 'cancel'
+          ? `🗑️ <b>Ticket ${identifier} Cancelled</b>\n\nThis ticket has been archived.`
+          : `🗑️ <b>Ticket ${identifier} Deleted</b>\n\nThis ticket has been moved to Linear's trash.`,
+        {
+          parse_mode: 'HTML',
+          reply_markup: {
+            inline_keyboard: [
+              [
+                {
+                  text: `↩️ Undo (${this.formatWindow(this.undoWindowSeconds)})`,
+                  callback_data: `undo_${token}`,
+                },
+              ],
+            ],
+          },
+        },
+      );
+    } catch (err) {
+      console.error(`Failed to ${action} ticket:`, err);
+      await ctx.editMessageText(
+        `❌ <b>Error ${action === 'cancel' ? 'cancelling' : 'deleting'} ticket</b>`,
+        { parse_mode: 'HTML' },
+      );
+    }
+  }
+
+  private async handleAssignAction(
+    ticketIdentifier: string | null,
+    assigneeName: string | null,
+  ): Promise<ActionResult> {
+    if (!ticketIdentifier) {
+      return {
+        status: 'failure',
+        text: '❌ <b>Could not identify the ticket</b>\n\nPlease specify the ticket (e.g., "assign MOB-1234 to Cyril")',
+      };
+    }
+
+    if (!assigneeName) {
+      return {
+        status: 'failure',
+        text: '❌ <b>Could not identify the assignee</b>\n\nPlease specify who to assign (e.g., "assign MOB-1234 to Cyril")',
+      };
+    }
+
+    try {
+      const issueId = await this.getIssueIdFromIdentifier(ticketIdentifier);
+      if (!issueId) {
+        return {
+          status: 'failure',
+          text: `❌ <b>Ticket ${ticketIdentifier} not found</b>`,
+        };
+      }
+
+      const assigneeId = await this.aiService.getUserIdByName(assigneeName);
+      if (!assigneeId) {
+        return {
+          status: 'failure',
+          text: `❌ <b>User "${assigneeName}" not found</b>`,
+        };
+      }
+
+      const updated = await this.linearClient.updateIssue(issueId, {
+        assigneeId,
+      });
+      if (updated) {
+        const newAssignee = updated.assignee?.name || assigneeName;
+        return {
+          status: 'success',
+          text: `✅ <b>Ticket ${ticketIdentifier} assigned to ${newAssignee}</b>`,
+        };
+      }
+      return {
+        status: 'failure',
+        text: `❌ <b>Failed to assign ticket ${ticketIdentifier}</b>`,
+      };
+    } catch (err) {
+      console.error('Failed to assign ticket:', err);
+      return { status: 'failure', text: '❌ <b>Error assigning ticket</b>' };
+    }
+  }
+
+  private async handleStatusAction(
+    ctx: Context,
+    ticketIdentifier: string | null,
+    newStatus: string | null,
+  ): Promise<ActionResult> {
+    if (!ticketIdentifier) {
+      return {
+        status: 'failure',
+        text: '❌ <b>Could not identify the ticket</b>\n\nPlease specify the ticket (e.g., "set MOB-1234 to In Progress")',
+      };
+    }
+
+    if (!newStatus) {
+      return {
+        status: 'failure',
+        text: '❌ <b>Could not identify the status</b>\n\nAvailable: Todo, In Progress, In Review, Done, Cancelled',
+      };
+    }
+
+    try {
+      const issueId = await this.getIssueIdFromIdentifier(ticketIdentifier);
+      if (!issueId) {
+        return {
+          status: 'failure',
+          text: `❌ <b>Ticket ${ticketIdentifier} not found</b>`,
+        };
+      }
+
+      // Get workflow states for the team
+      const stateId = await this.getStateIdByName(newStatus, ctx.chat!.id);
+      if (!stateId) {
+        return {
+          status: 'failure',
+          text: `❌ <b>Status "${newStatus}" not found</b>\n\nAvailable: Todo, In Progress, In Review, Done, Cancelled`,
+        };
+      }
+
+      const updated = await this.linearClient.updateIssue(issueId, { stateId });
+      if (updated) {
+        const updatedStatus = updated.state?.name || newStatus;
+        return {
+          status: 'success',
+          text: `✅ <b>Ticket ${ticketIdentifier} updated to "${updatedStatus}"</b>`,
+        };
+      }
+      return {
+        status: 'failure',
+        text: `❌ <b>Failed to update ticket ${ticketIdentifier}</b>`,
+      };
+    } catch (err) {
+      console.error('Failed to update ticket status:', err);
+      return {
+        status: 'failure',
+        text: '❌ <b>Error updating ticket status</b>',
+      };
+    }
+  }
+
+  private async handleCreateAction(
+    ctx: Context,
+    command: {
+      title: string | null;
+      description: string | null;
+      assigneeName: string | null;
+    } & Partial<TicketAttributes> &
+      Partial<Pick<ParsedCommand, 'confidence' | 'newStatus'>>,
+  ): Promise<ActionResult> {
+    if (!command.title) {
+      return {
+        status: 'failure',
+        text: '❌ <b>Could not determine ticket title</b>\n\nPlease be more specific about what the ticket should be.',
+      };
+    }
+
+    let assigneeId: string | null = null;
+    console.log(`[LinearBot] handleCreateAction - command.assigneeName: "${command.assigneeName}"`);
+    if (command.assigneeName) {
+      assigneeId = await this.aiService.getUserIdByName(command.assigneeName);
+      console.log(`[LinearBot] handleCreateAction - resolved assigneeId: "${assigneeId}"`);
+    }
+
+    const { labels, unknown: unknownLabels } = await this.resolveLabels(
+      command.labels ?? [],
+      ctx.chat!.id,
+    );
+
+    const origin = this.draftOrigin(
+      ctx,
+      (ctx.message as { message_id?: number } | undefined)?.message_id,
+    );
+    const chatId = origin.chatId;
+
+    const draft: TicketDraft = {
+      ...origin,
+      title: command.title,
+      description: command.description || '',
+      assigneeId,
+      assigneeName: command.assigneeName,
+      status: command.newStatus ?? null,
+      extra: {
+        priority: command.priority ?? undefined,
+        labelIds: labels.length ? labels.map((l) => l.id) : undefined,
+        estimate: command.estimate ?? undefined,
+        dueDate: command.dueDate ?? undefined,
+      },
+      unknownLabels,
+    };
+
+    if (
+      command.confidence !== undefined &&
+      command.confidence < (await this.getDraftThreshold(chatId))
+    ) {
+      return this.showTicketDraft(draft);
+    }
+    return this.submitDraft(draft);
+  }
+
+  /**
+   * Where a ticket request came from: the chat, the requester, and a context footer for the description
+   * linking back to `messageId`
+   */
+  private draftOrigin(ctx: Context, messageId?: number): DraftOrigin {
+    // Build description with Telegram context
+    const chatType = ctx.chat!.type;
+    const chatName = chatType === 'private' 
+      ? `Private chat with ${ctx.from?.username || ctx.from?.first_name || 'Unknown'}`
+      : (ctx.chat as { title?: string }).title || 'Unknown Group';
+    
+    // Build Telegram message link
+    const chatId = ctx.chat!.id;
+    let telegramLink = '';
+    if (messageId && (chatType === 'supergroup' || chatType === 'group')) {
+      // For supergroups/groups, chat ID is negative. Remove the minus sign and leading "100" if present
+      const chatIdStr = String(chatId);
+      const formattedChatId = chatIdStr.startsWith('-100') 
+        ? chatIdStr.slice(4) 
+        : chatIdStr.startsWith('-') 
+          ? chatIdStr.slice(1) 
+          : chatIdStr;
+      telegramLink = `https://t.me/c/${formattedChatId}/${messageId}`;
+    }
+    
+    // Build the context footer for the description
+    let contextFooter = '\n\n---\n';
+    contextFooter += `**Context:** ${chatName}`;
+    if (telegramLink) {
+      contextFooter += ` ([View in Telegram](${telegramLink}))`;
+    }
+    contextFooter += `\n**Requested by:** @${ctx.from?.username || ctx.from?.first_name || 'Unknown'}`;
+
+    const team = chatType === 'private' 
+      ? ctx.from?.username || 'PrivateChat' 
+      : chatName;
+
+    return {
+      contextFooter,
+      chatId,
+      team,
+      requester: {
+        id: ctx.from!.id,
+        username: ctx.from?.username,
+        firstName: ctx.from?.first_name,
+        lastName: ctx.from?.last_name,
+      },
+    };
+  }
+
+  /**
+   * Create a draft, unless it looks like a duplicate of an open issue
+   */
+  private async submitDraft(draft: TicketDraft): Promise<ActionResult> {
+    const duplicates = await this.findDuplicateIssues(draft);
+    if (duplicates.length) {
+      return this.askDuplicateChoice(draft, duplicates);
+    }
+    return this.createFromDraft(draft);
+  }
+
+  /**
+   * Create the Linear issue for a draft and build the success card
+   */
+  private async createFromDraft(draft: TicketDraft): Promise<ActionResult> {
+    const stateId = draft.status
+      ? await this.getStateIdByName(draft.status, draft.chatId)
+      : null;
+    const issue = await this.createLinearIssue(
+      draft.title,
+      draft.description + draft.contextFooter,
+      draft.assigneeId,
+      draft.chatId,
+      { ...draft.extra, stateId: stateId ?? undefined },
+    );
+
+    if (!issue) {
+      // Send error via DM instead of public channel
+      return {
+        status: 'failure',
+        text: '❌ <b>Failed to create ticket</b>\n\nThe ticket could not be created. This might be due to:\n• Linear API issues\n• Configuration problems\n\nPlease try again later or contact the admin.',
+        viaDM: true,
+      };
+    }
+
+    // Store in Redis
+    const issueData: TelegramLinearIssue = {
+      chatId: draft.chatId,
+      username: draft.requester.username,
+      firstName: draft.requester.firstName,
+      lastName: draft.requester.lastName,
+      team: draft.team,
+      issueId: issue.id,
+      identifier: issue.identifier,
+      title: issue.title,
+      description: draft.description,
+      status: issue.state?.name || 'Open',
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+    };
+
+    await this.redis.hset(`issue:${issue.id}`, issueData);
+    await this.redis.sadd(`chat:${draft.chatId}:issues`, issue.id);
+
+    // Build comprehensive success message
+    const linearUrl = `https://linear.app/mobulalabs/issue/${issue.identifier}`;
+    const requestedBy = this.formatRequester(draft.requester);
+    const createdAt = new Date().toLocaleString('en-US', { 
+      dateStyle: 'medium', 
+      timeStyle: 'short' 
+    });
+
+    // Get the actual assignee name from the Linear response if available
+    const actualAssignee =
+      issue.assignee?.name || draft.assigneeName || 'Unassigned';
+
+    let successMsg = `✅ <b>Ticket Created Successfully!</b>\n\n`;
+    successMsg += `━━━━━━━━━━━━━━━━━━━━━\n`;
+    successMsg += `🎫 <b>Ticket:</b> <a href="${linearUrl}">${issue.identifier}</a>\n`;
+    successMsg += `📌 <b>Title:</b> ${issue.title}\n`;
+    successMsg += `━━━━━━━━━━━━━━━━━━━━━\n\n`;
+    
+    successMsg += `📝 <b>Description:</b>\n<i>${draft.description || 'No description'}</i>\n\n`;
+    
+    successMsg += `👤 <b>Assigned to:</b> ${actualAssignee}\n`;
+    successMsg += `📊 <b>Status:</b> ${issue.state?.name || 'Todo'}\n`;
+    successMsg += this.formatTicketAttributes(issue);
+    if (draft.unknownLabels.length) {
+      successMsg += `⚠️ <b>Unknown labels skipped:</b> ${this.escapeHtml(draft.unknownLabels.join(', '))}\n`;
+    }
+    successMsg += `🙋 <b>Requested by:</b> ${requestedBy}\n`;
+    successMsg += `🕐 <b>Created at:</b> ${createdAt}\n\n`;
+    
+    successMsg += `🔗 <a href="${linearUrl}">View in Linear</a>`;
+
+    return {
+      status: 'success',
+      text: successMsg,
+      summary: `✅ Created <a href="${linearUrl}">${issue.identifier}</a>: ${issue.title} (👤 ${actualAssignee})`,
+      keyboard: [
+        [
+          { text: '✏️ Edit', callback_data: `edit_${issue.identifier}` },
+          { text: '❌ Cancel', callback_data: `cancel_${issue.id}` },
+        ],
+        [{ text: '✅ Done', callback_data: `done_${issue.identifier}` }],
+      ],
+      issueId: issue.id,
+    };
+  }
+
+  private chatHistoryKey(chatId: number): string {
+    return `chat:${chatId}:history`;
+  }
+
+  private historySettingsKey(chatId: number): string {
+    return `chat:${chatId}:history_settings`;
+  }
+
+  private discussionSummaryKey(token: string): string {
+    return `discussion_summary:${token}`;
+  }
+
+  // How many messages a chat keeps and for how long, /history overrides the config per chat
+  private async getHistorySettings(
+    chatId: number,
+  ): Promise<{ size: number; ttlSeconds: number }> {
+    const custom = await this.redis.hgetall(this.historySettingsKey(chatId));
+    return {
+      size: custom.size
+        ? Number(custom.size)
+        : this.config.get<number>('CHAT_HISTORY_SIZE'),
+      ttlSeconds: custom.ttlSeconds
+        ? Number(custom.ttlSeconds)
+        : this.config.get<number>('CHAT_HISTORY_TTL_SECONDS'),
+    };
+  }
+
+  /**
+   * The chat's stored messages, oldest first, optionally only the last `limit`
+   */
+  private async getChatHistory(
+    chatId: number,
+    limit?: number,
+  ): Promise<ChatHistoryEntry[]> {
+    const raw = await this.redis.lrange(
+      this.chatHistoryKey(chatId),
+      0,
+      limit ? limit - 1 : -1,
+    );
+    return raw
+      .map((h) => {
+        try {
+          return JSON.parse(h) as ChatHistoryEntry;
+        } catch {
+          return null;
+        }
+      })
+      .filter((h): h is ChatHistoryEntry => h !== null)
+      .reverse();
+  }
+
+  /**
+   * Pick the messages `/summarize [N|since <time>]` is about, or everything from the replied-to message on
+   */
+  private async selectHistorySpan(
+    chatId: number,
+    args: string,
+    fromMessageId?: number,
+  ): Promise<ChatHistoryEntry[] | { error: string }> {
+    const history = await this.getChatHistory(chatId);
+
+    if (fromMessageId) {
+      if (args) return { error: SUMMARIZE_USAGE };
+      if (!history.some((h) => h.messageId === fromMessageId)) {
+        return {
+          error:
+            "❓ <b>That message is no longer in this chat's history</b>\n\nTry <code>/summarize since 2h</code> instead.",
+        };
+      }
+      return history.filter(
+        (h) => h.messageId !== undefined && h.messageId >= fromMessageId,
+      );
+    }
+
+    if (!args) return history;
+
+    if (/^\d+$/.test(args)) {
+      const count = Number(args);
+      return count > 0 ? history.slice(-count) : { error: SUMMARIZE_USAGE };
+    }
+
+    const since = args.match(/^since\s+(.+)$/i)?.[1];
+    const sinceTimestamp = since ? this.parseSince(since) : null;
+    if (!sinceTimestamp) return { error: SUMMARIZE_USAGE };
+    return history.filter((h) => h.timestamp >= sinceTimestamp);
+  }
+
+  /**
+   * Parse "30m", "2h" or "1d" into seconds
+   */
+  private parseDuration(value: string): number | null {
+    const match = value.trim().match(/^(\d+)\s*(m|min|h|d)$/i);
+    if (!match) return null;
+    const unitSeconds: Record<string, number> = {
+      m: 60,
+      min: 60,
+      h: 3600,
+      d: 86400,
+    };
+    const seconds = Number(match[1]) * unitSeconds[match[2].toLowerCase()];
+    return seconds > 0 ? seconds : null;
+  }
+
+  /**
+   * Parse a /summarize "since" value, either a duration ago or a time of day (the last time it was that time)
+   * Returns a Unix timestamp in seconds
+   */
+  private parseSince(value: string): number | null {
+    const now = Math.floor(Date.now() / 1000);
+    const duration = this.parseDuration(value);
+    if (duration) return now - duration;
+
+    const time = value.trim().match(/^(\d{1,2})[:h](\d{2})$/);
+    if (!time || Number(time[1]) > 23 || Number(time[2]) > 59) return null;
+    const since = new Date();
+    since.setHours(Number(time[1]), Number(time[2]), 0, 0);
+    if (since.getTime() > Date.now()) since.setDate(since.getDate() - 1);
+    return Math.floor(since.getTime() / 1000);
+  }
+
+  private formatDiscussionSummary(pending: PendingDiscussionSummary): string {
+    const { summary } = pending;
+    const list = (items: string[]) =>
+      items.map((item) => `• ${this.escapeHtml(item)}`).join('\n');
+
+    let text = `🧾 <b>Discussion Summary</b> (${pending.messageCount} message(s))\n\n`;
+    text += `━━━━━━━━━━━━━━━━━━━━━\n`;
+    text += `📌 <b>Title:</b> ${this.escapeHtml(summary.title)}\n`;
+    text += `━━━━━━━━━━━━━━━━━━━━━\n\n`;
+    text += `<i>${this.escapeHtml(summary.summary)}</i>\n`;
+    if (summary.decisions.length) {
+      text += `\n✅ <b>Decisions</b>\n${list(summary.decisions)}\n`;
+    }
+    if (summary.openQuestions.length) {
+      text += `\n❓ <b>Open questions</b>\n${list(summary.openQuestions)}\n`;
+    }
+    if (summary.actionItems.length) {
+      text += `\n🎯 <b>Action items</b>\n`;
+      text += summary.actionItems
+        .map(
+          (item, i) =>
+            `${i + 1}. ${this.escapeHtml(item.title)}${item.assigneeName ? ` — 👤 ${this.escapeHtml(item.assigneeName)}` : ''}`,
+        )
+        .join('\n');
+      text += '\n';
+    }
+    text += `\n🙋 <b>Requested by:</b> ${this.formatRequester(pending.origin.requester)}`;
+    return text;
+  }
+
+  // Markdown description for the single ticket made from a discussion summary
+  private formatDiscussionDescription(summary: DiscussionSummary): string {
+    let description = summary.summary;
+    if (summary.decisions.length) {
+      description += `\n\n**Decisions**\n${summary.decisions.map((d) => `- ${d}`).join('\n')}`;
+    }
+    if (summary.openQuestions.length) {
+      description += `\n\n**Open questions**\n${summary.openQuestions.map((q) => `- ${q}`).join('\n')}`;
+    }
+    if (summary.actionItems.length) {
+      description += `\n\n**Action items**\n`;
+      description += summary.actionItems
+        .map(
+          (item) =>
+            `- [ ] ${item.title}${item.assigneeName ? ` (${item.assigneeName})` : ''}`,
+        )
+        .join('\n');
+    }
+    return description;
+  }
+
+  private ticketDraftKey(token: string): string {
+    return `ticket_draft:${token}`;
+  }
+
+  private draftThresholdKey(chatId: number): string {
+    return `chat:${chatId}:draft_threshold`;
+  }
+
+  // Create requests below this confidence are shown as a draft, /drafts overrides the config per chat
+  private async getDraftThreshold(chatId: number): Promise<number> {
+    const custom = await this.redis.get(this.draftThresholdKey(chatId));
+    return custom
+      ? Number(custom)
+      : this.config.get<number>('DRAFT_CONFIDENCE_THRESHOLD');
+  }
+
+  private parseDraftRef(identifier: string): string | null {
+    return identifier.startsWith(DRAFT_REF_PREFIX)
+      ? identifier.slice(DRAFT_REF_PREFIX.length)
+      : null;
+  }
+
+  private formatEditTarget(identifier: string): string {
+    return this.parseDraftRef(identifier) ? 'the draft' : identifier;
+  }
+
+  /**
+   * Store a ticket draft and build its preview card with Create, Edit field and Discard buttons
+   */
+  private async showTicketDraft(draft: TicketDraft): Promise<ActionResult> {
+    const token = crypto.randomBytes(6).toString('hex');
+    await this.redis.setex(
+      this.ticketDraftKey(token),
+      TICKET_DRAFT_TTL_SECONDS,
+      JSON.stringify(draft),
+    );
+    return {
+      status: 'pending',
+      ...this.formatTicketDraft(draft, token),
+      summary: `📝 Draft <b>${this.escapeHtml(draft.title)}</b> needs a check below`,
+    };
+  }
+
+  private formatTicketDraft(
+    draft: TicketDraft,
+    token: string,
+  ): { text: string; keyboard: InlineKeyboardButton[][] } {
+    let text = `📝 <b>Draft Ticket — please check</b>\n\n`;
+    text += `I'm not sure I got this right, so nothing was created yet.\n\n`;
+    text += `━━━━━━━━━━━━━━━━━━━━━\n`;
+    text += `📌 <b>Title:</b> ${this.escapeHtml(draft.title)}\n`;
+    text += `━━━━━━━━━━━━━━━━━━━━━\n\n`;
+    text += `📝 <b>Description:</b>\n<i>${this.escapeHtml(draft.description || 'No description')}</i>\n\n`;
+    text += `👤 <b>Assigned to:</b> ${this.escapeHtml(draft.assigneeName || 'Unassigned')}\n`;
+    text += `📊 <b>Status:</b> ${this.escapeHtml(draft.status || 'Team default')}\n`;
+    text += `🙋 <b>Requested by:</b> ${this.formatRequester(draft.requester)}\n\n`;
+    text += `<i>This draft expires in ${this.formatWindow(TICKET_DRAFT_TTL_SECONDS)}.</i>`;
+
+    return {
+      text,
+      keyboard: [
+        [
+          { text: '✅ Create', callback_data: `draft_create_${token}` },
+          {
+            text: '✏️ Edit field',
+            callback_data: `edit_${DRAFT_REF_PREFIX}${token}`,
+          },
+          { text: '🗑️ Discard', callback_data: `draft_discard_${token}` },
+        ],
+      ],
+    };
+  }
+
+  /**
+   * Show the edit menu for a draft, and remember its card so edits can refresh it
+   */
+  private async openDraftEditMenu(ctx: Context, token: string): Promise<void> {
+    const raw = await this.redis.get(this.ticketDraftKey(token));
+    if (!raw) {
+      await ctx.answerCbQuery('This draft has expired', { show_alert: true });
+      await ctx.editMessageReplyMarkup(undefined);
+      return;
+    }
+
+    const draft = JSON.parse(raw) as TicketDraft;
+    draft.previewMessageId = ctx.callbackQuery?.message?.message_id;
+    await this.redis.set(
+      this.ticketDraftKey(token),
+      JSON.stringify(draft),
+      'KEEPTTL',
+    );
+
+    const ref = `${DRAFT_REF_PREFIX}${token}`;
+    await ctx.answerCbQuery();
+    await ctx.reply(`✏️ <b>Edit Draft</b>\n\nWhat would you like to edit?`, {
+      parse_mode: 'HTML',
+      reply_markup: {
+        inline_keyboard: [
+          [
+            { text: '📌 Title', callback_data: `editfield_title_${ref}` },
+            { text: '📝 Description', callback_data: `editfield_desc_${ref}` },
+          ],
+          [
+            { text: '👤 Assignee', callback_data: `editfield_assignee_${ref}` },
+            { text: '📊 Status', callback_data: `editfield_status_${ref}` },
+          ],
+        ],
+      },
+    });
+  }
+
+  /**
+   * Change one field of a draft and refresh its preview card
+   * Returns the confirmation to show the user
+   */
+  private async applyDraftEdit(
+    ctx: Context,
+    token: string,
+    field: PendingEdit['field'] | 'status',
+    value: string,
+  ): Promise<string> {
+    const raw = await this.redis.get(this.ticketDraftKey(token));
+    if (!raw) {
+      return '⌛ <b>This draft has expired</b>\n\nMention me again to start a new ticket.';
+    }
+
+    const draft = JSON.parse(raw) as TicketDraft;
+    switch (field) {
+      case 'title':
+        draft.title = value;
+        break;
+      case 'description':
+        draft.description = value;
+        break;
+      case 'assignee': {
+        const assigneeId = await this.aiService.getUserIdByName(value);
+        if (!assigneeId) {
+          return `❌ <b>User "${this.escapeHtml(value)}" not found</b>`;
+        }
+        draft.assigneeId = assigneeId;
+        draft.assigneeName = value;
+        break;
+      }
+      case 'status':
+        draft.status = value;
+        break;
+    }
+    await this.redis.set(
+      this.ticketDraftKey(token),
+      JSON.stringify(draft),
+      'KEEPTTL',
+    );
+
+    if (draft.previewMessageId) {
+      const { text, keyboard } = this.formatTicketDraft(draft, token);
+      try {
+        await ctx.telegram.editMessageText(
+          draft.chatId,
+          draft.previewMessageId,
+          undefined,
+          text,
+          {
+            parse_mode: 'HTML',
+            reply_markup: { inline_keyboard: keyboard },
+          },
+        );
+      } catch (err) {
+        console.error('Failed to refresh draft card:', err);
+      }
+    }
+    return `✅ <b>Draft ${field} updated</b>`;
+  }
+
+  private duplicateChoiceKey(token: string): string {
+    return `duplicate_choice:${token}`;
+  }
+
+  private formatRequester(requester: TicketDraft['requester']): string {
+    return requester.username
+      ? `@${requester.username}`
+      : requester.firstName || 'Unknown';
+  }
+
+  /**
+   * Open issues in the chat's team that look like the draft, best match first
+   * Uses Linear's text search, then asks the AI which hits are real duplicates when DUPLICATE_DETECTION is "ai"
+   */
+  private async findDuplicateIssues(
+    draft: TicketDraft,
+  ): Promise<LinearIssueSummary[]> {
+    const mode = this.config.get<'off' | 'search' | 'ai'>(
+      'DUPLICATE_DETECTION',
+    );
+    if (mode === 'off') return [];
+
+    let hits: LinearIssueSummary[];
+    try {
+      hits = await this.linearClient.searchIssues(draft.title, {
+        teamId: await this.getChatTeamId(draft.chatId),
+        first: DUPLICATE_SEARCH_LIMIT,
+      });
+    } catch (err) {
+      console.error('Failed to search for duplicate issues:', err);
+      return [];
+    }
+    if (!hits.length || mode === 'search')
+      return hits.slice(0, MAX_DUPLICATE_SUGGESTIONS);
+
+    const result = await this.aiService.findDuplicates(draft, hits);
+    if (!result.ok) {
+      // Better to ask once too often than to miss a duplicate
+      return hits.slice(0, MAX_DUPLICATE_SUGGESTIONS);
+    }
+    return hits
+      .filter((h) => result.value.includes(h.identifier.toUpperCase()))
+      .slice(0, MAX_DUPLICATE_SUGGESTIONS);
+  }
+
+  /**
+   * Build the card listing likely duplicates, with Create anyway / Comment instead / Abort buttons
+   */
+  private async askDuplicateChoice(
+    draft: TicketDraft,
+    duplicates: LinearIssueSummary[],
+  ): Promise<ActionResult> {
+    const token = crypto.randomBytes(6).toString('hex');
+    const pending: PendingDuplicateChoice = { draft, duplicates };
+    await this.redis.setex(
+      this.duplicateChoiceKey(token),
+      DUPLICATE_CHOICE_TTL_SECONDS,
+      JSON.stringify(pending),
+    );
+
+    let text = `🔎 <b>Possible duplicate${duplicates.length > 1 ? 's' : ''} found</b>\n\n`;
+    text += `📌 <b>New ticket:</b> ${this.escapeHtml(draft.title)}\n\n`;
+    text += `Similar open ticket${duplicates.length > 1 ? 's' : ''}:\n`;
+    for (const issue of duplicates) {
+      text += `• <a href="https://linear.app/mobulalabs/issue/${issue.identifier}">${issue.identifier}</a> ${this.escapeHtml(issue.title)}`;
+      text += ` — <i>${this.escapeHtml(issue.state.name)}</i>\n`;
     }
+    text += `\n🙋 <b>Requested by:</b> ${this.formatRequester(draft.requester)}`;
+
+    return {
+      status: 'pending',
+      text,
+      summary: `🔎 <b>${this.escapeHtml(draft.title)}</b> may be a duplicate — choose below`,
+      keyboard: [
+        [{ text: '➕ Create anyway', callback_data: `dup_create_${token}` }],
+        ...duplicates.map((issue, i) => [
+          {
+            text: `💬 Comment on ${issue.identifier} instead`,
+            callback_data: `dup_comment_${token}_${i}`,
+          },
+        ]),
+        [{ text: '✖️ Abort', callback_data: `dup_abort_${token}` }],
+      ],
+    };
+  }
+
+  /**
+   * Add a draft to an existing issue as a comment instead of creating a new one
+   */
+  private async commentInsteadOfCreating(
+    ctx: Context,
+    draft: TicketDraft,
+    duplicate: LinearIssueSummary,
+  ): Promise<void> {
+    await this.userMappings.refresh();
+    const requester = draft.requester.username
+      ? (this.userMappings.findLinearUserByIdentifier(draft.requester.username)
+          ?.linearName ?? `@${draft.requester.username}`)
+      : draft.requester.firstName || 'Unknown';
+    const body = `**${draft.title}**\n\n${draft.description}${draft.contextFooter}\n\n${TELEGRAM_COMMENT_SIGNATURE} ${requester}_`;
 
     try {
-      const issueId = await this.getIssueIdFromIdentifier(ticketIdentifier);
-      if (!issueId) {
-        await ctx.telegram.editMessageText(
-          ctx.chat!.id,
-          messageId,
-          undefined,
-          `❌ <b>Ticket ${ticketIdentifier} not found</b>`,
+      const issueId = await this.getIssueIdFromIdentifier(duplicate.identifier);
+      const comment = issueId
+        ? await this.linearClient.createComment(issueId, body)
+        : null;
+      if (!issueId || !comment) {
+        await ctx.editMessageText(
+          `❌ <b>Failed to comment on ${duplicate.identifier}</b>`,
           { parse_mode: 'HTML' },
         );
         return;
       }
 
-      const assigneeId = await this.aiService.getUserIdByName(assigneeName);
-      if (!assigneeId) {
-        await ctx.telegram.editMessageText(
-          ctx.chat!.id,
-          messageId,
-          undefined,
-          `❌ <b>User "${assigneeName}" not found</b>`,
-          { parse_mode: 'HTML' },
-        );
-        return;
+      await this.redis.setex(
+        `bot_comment:${comment.id}`,
+        MESSAGE_ISSUE_TTL_SECONDS,
+        '1',
+      );
+      const linearUrl = `https://linear.app/mobulalabs/issue/${duplicate.identifier}`;
+      const chosenBy = ctx.from?.username
+        ? `@${ctx.from.username}`
+        : ctx.from?.first_name || 'Unknown';
+      await ctx.editMessageText(
+        `💬 <b>Added to <a href="${linearUrl}">${duplicate.identifier}</a> instead of creating a new ticket</b>\n\n` +
+          `📌 <b>Ticket:</b> ${this.escapeHtml(duplicate.title)}\n` +
+          `🙋 <b>Requested by:</b> ${this.formatRequester(draft.requester)} · chosen by ${chosenBy}\n\n` +
+          `🔗 <a href="${linearUrl}">View in Linear</a>`,
+        { parse_mode: 'HTML', link_preview_options: { is_disabled: true } },
+      );
+      const messageId = ctx.callbackQuery?.message?.message_id;
+      if (messageId) {
+        await this.linkMessageToIssue(ctx.chat!.id, messageId, issueId);
       }
+    } catch (err) {
+      console.error('Failed to comment on duplicate issue:', err);
+      await ctx.editMessageText(
+        `❌ <b>Error commenting on ${duplicate.identifier}</b>`,
+        { parse_mode: 'HTML' },
+      );
+    }
+  }
 
-      const mutation = `
-        mutation {
-          issueUpdate(id: "${issueId}", input: { assigneeId: "${assigneeId}" }) {
-            success
-            issue { assignee { name } }
-          }
-        }`;
+  private messageIssueKey(chatId: number, messageId: number): string {
+    return `tg_msg:${chatId}:${messageId}`;
+  }
+
+  // Remember which issue a bot message is about, so replies to it can be turned into comments
+  private async linkMessageToIssue(
+    chatId: number,
+    messageId: number,
+    issueId: string,
+  ): Promise<void> {
+    await this.redis.setex(
+      this.messageIssueKey(chatId, messageId),
+      MESSAGE_ISSUE_TTL_SECONDS,
+      issueId,
+    );
+  }
+
+  /**
+   * Post a reply to a ticket message as a Linear comment, attributed to the sender's Linear name
+   * Returns false when the replied-to message is not linked to an issue
+   */
+  private async handleCommentReply(
+    ctx: Context,
+    repliedMessageId: number,
+    text: string,
+  ): Promise<boolean> {
+    const chatId = ctx.chat!.id;
+    const issueId = await this.redis.get(
+      this.messageIssueKey(chatId, repliedMessageId),
+    );
+    if (!issueId) return false;
+
+    const username = ctx.from?.username;
+    if (await this.checkPermission(username, chatId, 'comment')) return false;
+
+    await this.userMappings.refresh();
+    const author =
+      this.userMappings.findLinearUserByIdentifier(username!)?.linearName ??
+      `@${username}`;
+    const body = `${text}\n\n${TELEGRAM_COMMENT_SIGNATURE} ${author}_`;
+    const identifier =
+      (await this.redis.hget(`issue:${issueId}`, 'identifier')) || 'the ticket';
 
-      const res = await axios.post(
-        this.config.get('LINEAR_API_URL'),
-        { query: mutation },
+    try {
+      const comment = await this.linearClient.createComment(issueId, body);
+      if (!comment) {
+        await ctx.reply(`❌ <b>Failed to comment on ${identifier}</b>`, {
+          parse_mode: 'HTML',
+        });
+        return true;
+      }
+
+      // The Comment webhook echoes this back; remember it so it is not posted to Telegram again
+      await this.redis.setex(
+        `bot_comment:${comment.id}`,
+        MESSAGE_ISSUE_TTL_SECONDS,
+        '1',
+      );
+      const confirmation = await ctx.reply(
+        `💬 Comment added to <b>${identifier}</b>`,
         {
-          headers: {
-            Authorization: this.config.get('LINEAR_API_KEY'),
-            'Content-Type': 'application/json',
-          },
+          parse_mode: 'HTML',
+          reply_parameters: { message_id: ctx.message!.message_id },
         },
       );
-
-      if (res.data.data?.issueUpdate?.success) {
-        const newAssignee = res.data.data.issueUpdate.issue?.assignee?.name || assigneeName;
-        await ctx.telegram.editMessageText(
-          ctx.chat!.id,
-          messageId,
-          undefined,
-          `✅ <b>Ticket ${ticketIdentifier} assigned to ${newAssignee}</b>`,
-          { parse_mode: 'HTML' },
-        );
-      } else {
-        await ctx.telegram.editMessageText(
-          ctx.chat!.id,
-          messageId,
-          undefined,
-          `❌ <b>Failed to assign ticket ${ticketIdentifier}</b>`,
-          { parse_mode: 'HTML' },
-        );
-      }
+      await this.linkMessageToIssue(chatId, confirmation.message_id, issueId);
     } catch (err) {
-      console.error('Failed to assign ticket:', err);
-      await ctx.telegram.editMessageText(
-        ctx.chat!.id,
-        messageId,
-        undefined,
-        '❌ <b>Error assigning ticket</b>',
-        { parse_mode: 'HTML' },
-      );
+      console.error('Failed to post comment from Telegram:', err);
+      await ctx.reply(`❌ <b>Error commenting on ${identifier}</b>`, {
+        parse_mode: 'HTML',
+      });
     }
+    return true;
   }
 
-  private async handleStatusAction(
+  /**
+   * Whether a Linear comment was posted by the bot from a Telegram reply
+   */
+  async isOwnComment(
+    commentId: string | undefined,
+    body: string,
+  ): Promise<boolean> {
+    if (commentId && (await this.redis.exists(`bot_comment:${commentId}`)))
+      return true;
+    // The webhook can beat the Redis write, so fall back to the signature line
+    return body.includes(TELEGRAM_COMMENT_SIGNATURE);
+  }
+
+  private pendingEditKey(chatId: number, promptMessageId: number): string {
+    return `pending_edit:${chatId}:${promptMessageId}`;
+  }
+
+  private async storePendingEdit(
     ctx: Context,
-    messageId: number,
-    ticketIdentifier: string | null,
-    newStatus: string | null,
+    field: PendingEdit['field'],
+    identifier: string,
   ): Promise<void> {
-    if (!ticketIdentifier) {
-      await ctx.telegram.editMessageText(
-        ctx.chat!.id,
-        messageId,
-        undefined,
-        '❌ <b>Could not identify the ticket</b>\n\nPlease specify the ticket (e.g., "set MOB-1234 to In Progress")',
+    const promptMessageId = ctx.callbackQuery?.message?.message_id;
+    if (!promptMessageId || !ctx.from) return;
+
+    const pending: PendingEdit = {
+      field,
+      identifier,
+      userId: ctx.from.id,
+      expiresAt: Date.now() + PENDING_EDIT_WINDOW_MS,
+    };
+    await this.redis.setex(
+      this.pendingEditKey(ctx.chat!.id, promptMessageId),
+      PENDING_EDIT_RETENTION_SECONDS,
+      JSON.stringify(pending),
+    );
+  }
+
+  private async getPendingEdit(
+    chatId: number,
+    promptMessageId: number,
+  ): Promise<PendingEdit | null> {
+    const raw = await this.redis.get(
+      this.pendingEditKey(chatId, promptMessageId),
+    );
+    if (!raw) return null;
+    try {
+      return JSON.parse(raw) as PendingEdit;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Apply a reply to an edit prompt as the new title/description
+   * Returns false when the reply is not for a pending edit started by this user, so the
+   * regular message flow can handle it
+   */
+  private async handlePendingEditReply(
+    ctx: Context,
+    promptMessageId: number,
+    text: string,
+  ): Promise<boolean> {
+    const chatId = ctx.chat!.id;
+    const pending = await this.getPendingEdit(chatId, promptMessageId);
+    if (!pending || pending.userId !== ctx.from?.id) return false;
+
+    const key = this.pendingEditKey(chatId, promptMessageId);
+    await this.redis.del(key);
+
+    if (Date.now() > pending.expiresAt) {
+      await ctx.reply(
+        `⌛ <b>Edit window expired</b>\n\nThe 5-minute window to edit the ${pending.field} of ${this.formatEditTarget(pending.identifier)} has passed. Tap ✏️ Edit on the ticket to start again.`,
         { parse_mode: 'HTML' },
       );
-      return;
+      return true;
     }
 
-    if (!newStatus) {
-      await ctx.telegram.editMessageText(
-        ctx.chat!.id,
-        messageId,
-        undefined,
-        '❌ <b>Could not identify the status</b>\n\nAvailable: Todo, In Progress, In Review, Done, Cancelled',
+    const newValue = text.trim();
+    if (['cancel', '/cancel'].includes(newValue.toLowerCase())) {
+      await ctx.reply(
+        `✖️ <b>Edit of ${this.formatEditTarget(pending.identifier)} cancelled</b>`,
         { parse_mode: 'HTML' },
       );
-      return;
+      return true;
+    }
+
+    const draftToken = this.parseDraftRef(pending.identifier);
+    const denial = await this.checkPermission(
+      ctx.from?.username,
+      ctx.chat!.id,
+      draftToken ? 'create' : 'edit',
+    );
+    if (denial) {
+      await ctx.reply(denial, { parse_mode: 'HTML' });
+      return true;
+    }
+
+    if (draftToken) {
+      await ctx.reply(
+        await this.applyDraftEdit(ctx, draftToken, pending.field, newValue),
+        { parse_mode: 'HTML' },
+      );
+      return true;
     }
 
+    const updatingMsg = await ctx.reply(
+      `⏳ Updating ${pending.field} of ${pending.identifier}...`,
+      { parse_mode: 'HTML' },
+    );
+    const result = await this.handleEditAction(
+      ctx,
+      pending.identifier,
+      pending.field,
+      newValue,
+      null,
+    );
+    await this.showActionResult(ctx, updatingMsg.message_id, result);
+    return true;
+  }
+
+  private ticketListKey(chatId: number, listMessageId: number): string {
+    return `ticket_list:${chatId}:${listMessageId}`;
+  }
+
+  private async getTicketListQuery(
+    chatId: number,
+    listMessageId: number,
+  ): Promise<TicketListQuery | null> {
+    const raw = await this.redis.get(this.ticketListKey(chatId, listMessageId));
+    if (!raw) return null;
     try {
-      const issueId = await this.getIssueIdFromIdentifier(ticketIdentifier);
-      if (!issueId) {
-        await ctx.telegram.editMessageText(
-          ctx.chat!.id,
-          messageId,
-          undefined,
-          `❌ <b>Ticket ${ticketIdentifier} not found</b>`,
-          { parse_mode: 'HTML' },
-        );
-        return;
-      }
+      return JSON.parse(raw) as TicketListQuery;
+    } catch {
+      return null;
+    }
+  }
 
-      // Get workflow states for the team
-      const stateId = await this.getStateIdByName(newStatus);
-      if (!stateId) {
-        await ctx.telegram.editMessageText(
-          ctx.chat!.id,
-          messageId,
-          undefined,
-          `❌ <b>Status "${newStatus}" not found</b>\n\nAvailable: Todo, In Progress, In Review, Done, Cancelled`,
-          { parse_mode: 'HTML' },
-        );
-        return;
+  private async resolveLinearAssignee(
+    identifier: string,
+  ): Promise<{ id: string; name: string } | null> {
+    await this.userMappings.refresh();
+    const mapping = this.userMappings.findLinearUserByIdentifier(identifier);
+    const id = await this.aiService.getUserIdByName(
+      mapping?.linearName ?? identifier,
+    );
+    if (!id) return null;
+    return { id, name: mapping?.linearName ?? identifier.replace('@', '') };
+  }
+
+  /**
+   * Parse `/tickets [@user] [status]` arguments
+   * The first word is treated as a teammate when it starts with @ or matches a user mapping,
+   * everything else is matched against the team's workflow states
+   */
+  private async parseTicketListArgs(
+    args: string,
+    chatId: number,
+  ): Promise<TicketListQuery | { error: string }> {
+    if (!args) return { title: 'Open tickets', page: 0 };
+
+    await this.userMappings.refresh();
+    const [first, ...rest] = args.split(/\s+/);
+    let assignee: { id: string; name: string } | null = null;
+    let statusPart = args;
+
+    if (
+      first.startsWith('@') ||
+      this.userMappings.findLinearUserByIdentifier(first)
+    ) {
+      assignee = await this.resolveLinearAssignee(first);
+      if (!assignee) {
+        return {
+          error: `❌ <b>User "${this.escapeHtml(first)}" not found</b>`,
+        };
       }
+      statusPart = rest.join(' ');
+    }
 
-      const mutation = `
-        mutation {
-          issueUpdate(id: "${issueId}", input: { stateId: "${stateId}" }) {
-            success
-            issue { state { name } }
-          }
-        }`;
+    let stateName: string | undefined;
+    statusPart = statusPart.replace(/^"|"$/g, '').trim();
+    if (statusPart) {
+      const state = await this.matchWorkflowState(statusPart, chatId);
+      if ('error' in state) return state;
+      stateName = state.name;
+    }
 
-      const res = await axios.post(
-        this.config.get('LINEAR_API_URL'),
-        { query: mutation },
-        {
-          headers: {
-            Authorization: this.config.get('LINEAR_API_KEY'),
-            'Content-Type': 'application/json',
-          },
-        },
-      );
+    let title = assignee ? `Tickets for ${assignee.name}` : 'Open tickets';
+    if (stateName) title += ` — ${stateName}`;
 
-      if (res.data.data?.issueUpdate?.success) {
-        const updatedStatus = res.data.data.issueUpdate.issue?.state?.name || newStatus;
-        await ctx.telegram.editMessageText(
-          ctx.chat!.id,
-          messageId,
-          undefined,
-          `✅ <b>Ticket ${ticketIdentifier} updated to "${updatedStatus}"</b>`,
-          { parse_mode: 'HTML' },
-        );
+    return { title, assigneeId: assignee?.id, stateName, page: 0 };
+  }
+
+  /**
+   * Parse `/search <text> [assignee:<user>] [state:<state>] [label:<label>]` arguments
+   * Filter values with spaces go in double quotes, and so can the search text
+   */
+  private async parseSearchArgs(
+    args: string,
+    chatId: number,
+  ): Promise<TicketListQuery | { error: string }> {
+    const terms: string[] = [];
+    const filters: Record<string, string> = {};
+    for (const [, key, quotedValue, value, quotedTerm, term] of args.matchAll(
+      /(\w+):(?:"([^"]*)"|(\S+))|"([^"]*)"|(\S+)/g,
+    )) {
+      const filterKey = key?.toLowerCase();
+      if (filterKey && ['assignee', 'state', 'label'].includes(filterKey)) {
+        filters[filterKey] = (quotedValue ?? value).trim();
       } else {
-        await ctx.telegram.editMessageText(
-          ctx.chat!.id,
-          messageId,
-          undefined,
-          `❌ <b>Failed to update ticket ${ticketIdentifier}</b>`,
-          { parse_mode: 'HTML' },
+        terms.push(
+          key ? `${key}:${quotedValue ?? value}` : (quotedTerm ?? term),
         );
       }
-    } catch (err) {
-      console.error('Failed to update ticket status:', err);
-      await ctx.telegram.editMessageText(
-        ctx.chat!.id,
-        messageId,
-        undefined,
-        '❌ <b>Error updating ticket status</b>',
-        { parse_mode: 'HTML' },
-      );
     }
-  }
 
-  private async handleCreateAction(
-    ctx: Context,
-    messageId: number,
-    command: { title: string | null; description: string | null; assigneeName: string | null },
-  ): Promise<void> {
-    if (!command.title) {
-      await ctx.telegram.editMessageText(
-        ctx.chat!.id,
-        messageId,
-        undefined,
-        '❌ <b>Could not determine ticket title</b>\n\nPlease be more specific about what the ticket should be.',
-        { parse_mode: 'HTML' },
-      );
-      return;
+    const search = terms.join(' ').trim();
+    if (!search) return { error: SEARCH_USAGE };
+
+    const query: TicketListQuery = {
+      title: `Search "${search}"`,
+      search,
+      page: 0,
+    };
+
+    if (filters.assignee) {
+      const assignee = await this.resolveLinearAssignee(filters.assignee);
+      if (!assignee) {
+        return {
+          error: `❌ <b>User "${this.escapeHtml(filters.assignee)}" not found</b>`,
+        };
+      }
+      query.assigneeId = assignee.id;
+      query.title += ` — ${assignee.name}`;
     }
 
-    let assigneeId: string | null = null;
-    console.log(`[LinearBot] handleCreateAction - command.assigneeName: "${command.assigneeName}"`);
-    if (command.assigneeName) {
-      assigneeId = await this.aiService.getUserIdByName(command.assigneeName);
-      console.log(`[LinearBot] handleCreateAction - resolved assigneeId: "${assigneeId}"`);
+    if (filters.state) {
+      const state = await this.matchWorkflowState(filters.state, chatId);
+      if ('error' in state) return state;
+      query.stateName = state.name;
+      query.title += ` — ${state.name}`;
     }
 
-    // Build description with Telegram context
-    const chatType = ctx.chat!.type;
-    const chatName = chatType === 'private' 
-      ? `Private chat with ${ctx.from?.username || ctx.from?.first_name || 'Unknown'}`
-      : (ctx.chat as { title?: string }).title || 'Unknown Group';
-    
-    // Build Telegram message link
-    const message = ctx.message as { message_id?: number };
-    const chatId = ctx.chat!.id;
-    let telegramLink = '';
-    if (chatType === 'supergroup' || chatType === 'group') {
-      // For supergroups/groups, chat ID is negative. Remove the minus sign and leading "100" if present
-      const chatIdStr = String(chatId);
-      const formattedChatId = chatIdStr.startsWith('-100') 
-        ? chatIdStr.slice(4) 
-        : chatIdStr.startsWith('-') 
-          ? chatIdStr.slice(1) 
-          : chatIdStr;
-      telegramLink = `https://t.me/c/${formattedChatId}/${message.message_id}`;
+    if (filters.label) {
+      const { labels } = await this.resolveLabels([filters.label], chatId);
+      if (!labels.length) {
+        return {
+          error: `❌ <b>Label "${this.escapeHtml(filters.label)}" not found</b>`,
+        };
+      }
+      query.labelName = labels[0].name;
+      query.title += ` — ${labels[0].name}`;
     }
-    
-    // Build full description with context
-    let fullDescription = command.description || '';
-    fullDescription += '\n\n---\n';
-    fullDescription += `**Context:** ${chatName}`;
-    if (telegramLink) {
-      fullDescription += ` ([View in Telegram](${telegramLink}))`;
+
+    return query;
+  }
+
+  /**
+   * Find one of the team's workflow states by name, case-insensitively
+   */
+  private async matchWorkflowState(
+    name: string,
+    chatId: number,
+  ): Promise<{ name: string } | { error: string }> {
+    try {
+      const states = await this.linearClient.getWorkflowStates(
+        await this.getChatTeamId(chatId),
+      );
+      const matched = states.find(
+        (s) => s.name.toLowerCase() === name.toLowerCase(),
+      );
+      if (!matched) {
+        return {
+          error: `❌ <b>Status "${this.escapeHtml(name)}" not found</b>\n\nAvailable: ${states.map((s) => s.name).join(', ')}`,
+        };
+      }
+      return { name: matched.name };
+    } catch (err) {
+      console.error('Failed to fetch workflow states:', err);
+      return { error: '❌ <b>Error fetching workflow states</b>' };
+    }
+  }
+
+  /**
+   * Send a ticket list page, or edit the list in place when called from one of its buttons
+   */
+  private async showTicketList(
+    ctx: Context,
+    query: TicketListQuery,
+    page = query.page,
+  ): Promise<void> {
+    const chatId = ctx.chat!.id;
+
+    let issues: LinearIssueSummary[];
+    try {
+      const teamId = await this.getChatTeamId(chatId);
+      issues = query.search
+        ? await this.linearClient.searchIssues(query.search, {
+            teamId,
+            assigneeId: query.assigneeId,
+            stateName: query.stateName,
+            labelName: query.labelName,
+            // Looking for a ticket usually means any ticket, done or not
+            includeClosed: true,
+            first: SEARCH_RESULT_LIMIT,
+          })
+        : await this.linearClient.listIssues({
+            teamId,
+            assigneeId: query.assigneeId,
+            stateName: query.stateName,
+          });
+    } catch (err) {
+      console.error('Failed to list tickets:', err);
+      await ctx.reply(
+        '❌ <b>Error fetching tickets</b>\n\nPlease try again later.',
+        { parse_mode: 'HTML' },
+      );
+      return;
     }
-    fullDescription += `\n**Requested by:** @${ctx.from?.username || ctx.from?.first_name || 'Unknown'}`;
 
-    const issue = await this.createLinearIssue(
-      command.title,
-      fullDescription,
-      assigneeId,
+    issues.sort(
+      (a, b) =>
+        (STATE_TYPE_ORDER[a.state.type] ?? 99) -
+          (STATE_TYPE_ORDER[b.state.type] ?? 99) ||
+        a.state.position - b.state.position ||
+        a.identifier.localeCompare(b.identifier, undefined, { numeric: true }),
     );
 
-    if (!issue) {
-      // Send error via DM instead of public channel
-      await this.sendErrorViaDM(
-        ctx,
-        messageId,
-        '❌ <b>Failed to create ticket</b>\n\nThe ticket could not be created. This might be due to:\n• Linear API issues\n• Configuration problems\n\nPlease try again later or contact the admin.',
-      );
-      return;
+    const pageCount = Math.max(
+      1,
+      Math.ceil(issues.length / TICKET_LIST_PAGE_SIZE),
+    );
+    const currentPage = Math.min(Math.max(page, 0), pageCount - 1);
+    const pageIssues = issues.slice(
+      currentPage * TICKET_LIST_PAGE_SIZE,
+      (currentPage + 1) * TICKET_LIST_PAGE_SIZE,
+    );
+
+    let text = `📋 <b>${this.escapeHtml(query.title)}</b> (${issues.length})\n`;
+    if (!issues.length) {
+      text += query.search
+        ? '\nNo tickets match this search'
+        : '\nNo tickets found 🎉';
     }
 
-    const team = chatType === 'private' 
-      ? ctx.from?.username || 'PrivateChat' 
-      : chatName;
+    let currentState = '';
+    for (const issue of pageIssues) {
+      if (issue.state.name !== currentState) {
+        currentState = issue.state.name;
+        const stateCount = issues.filter(
+          (i) => i.state.name === currentState,
+        ).length;
+        text += `\n${STATE_TYPE_EMOJI[issue.state.type] ?? '•'} <b>${this.escapeHtml(currentState)}</b> (${stateCount})\n`;
+      }
+      const assignee = query.assigneeId
+        ? ''
+        : ` — <i>${this.escapeHtml(issue.assignee?.name ?? 'Unassigned')}</i>`;
+      text += `• <a href="https://linear.app/mobulalabs/issue/${issue.identifier}">${issue.identifier}</a> ${this.escapeHtml(issue.title)}${assignee}\n`;
+    }
 
-    // Store in Redis
-    const issueData: TelegramLinearIssue = {
-      chatId: ctx.chat!.id,
-      username: ctx.from?.username,
-      firstName: ctx.from?.first_name,
-      lastName: ctx.from?.last_name,
-      team,
-      issueId: issue.id,
-      identifier: issue.identifier,
-      title: issue.title,
-      description: command.description || '',
-      status: issue.state?.name || 'Open',
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
+    if (pageCount > 1) {
+      text += `\n<i>Page ${currentPage + 1}/${pageCount}</i>`;
+    }
+
+    // One row of quick actions per ticket, reusing the edit_ and setstatus_ callbacks
+    const keyboard: { text: string; callback_data: string }[][] =
+      pageIssues.map((issue) => [
+        {
+          text: `✏️ ${issue.identifier}`,
+          callback_data: `edit_${issue.identifier}`,
+        },
+        ...(issue.state.type === 'completed'
+          ? []
+          : [
+              {
+                text: '✅ Done',
+                callback_data: `setstatus_Done_${issue.identifier}`,
+              },
+            ]),
+      ]);
+
+    const navigation: { text: string; callback_data: string }[] = [];
+    if (currentPage > 0) {
+      navigation.push({
+        text: '◀️ Prev',
+        callback_data: `tlpage_${currentPage - 1}`,
+      });
+    }
+    if (currentPage < pageCount - 1) {
+      navigation.push({
+        text: 'Next ▶️',
+        callback_data: `tlpage_${currentPage + 1}`,
+      });
+    }
+    if (navigation.length) keyboard.push(navigation);
+
+    const extra = {
+      parse_mode: 'HTML' as const,
+      link_preview_options: { is_disabled: true },
+      reply_markup: { inline_keyboard: keyboard },
     };
 
-    await this.redis.hset(`issue:${issue.id}`, issueData);
-    await this.redis.sadd(`chat:${ctx.chat!.id}:issues`, issue.id);
+    let listMessageId = ctx.callbackQuery?.message?.message_id;
+    if (listMessageId) {
+      try {
+        await ctx.editMessageText(text, extra);
+      } catch (err) {
+        // Telegram rejects edits that do not change anything
+        console.error('Failed to refresh ticket list:', err);
+      }
+    } else {
+      const sent = await ctx.reply(text, extra);
+      listMessageId = sent.message_id;
+    }
 
-    // Build comprehensive success message
-    const linearUrl = `https://linear.app/mobulalabs/issue/${issue.identifier}`;
-    const requestedBy = ctx.from?.username ? `@${ctx.from.username}` : ctx.from?.first_name || 'Unknown';
-    const createdAt = new Date().toLocaleString('en-US', { 
-      dateStyle: 'medium', 
-      timeStyle: 'short' 
-    });
+    await this.redis.setex(
+      this.ticketListKey(chatId, listMessageId),
+      TICKET_LIST_TTL_SECONDS,
+      JSON.stringify({ ...query, page: currentPage }),
+    );
+  }
 
-    // Get the actual assignee name from the Linear response if available
-    const actualAssignee = issue.assignee?.name || command.assigneeName || 'Unassigned';
+  /**
+   * Issues for an inline query: the issue itself for an identifier, search results otherwise.
+   * Lookups are cached briefly since Telegram sends a query for every keystroke.
+   */
+  private async findInlineIssues(text: string): Promise<LinearIssueSummary[]> {
+    const key = `inline_query:${text.toLowerCase()}`;
+    const cached = await this.redis.get(key);
+    if (cached) return JSON.parse(cached) as LinearIssueSummary[];
+
+    let issues: LinearIssueSummary[];
+    if (/^[A-Z]+-\d+$/i.test(text)) {
+      const issue = await this.linearClient.getIssueSummary(text.toUpperCase());
+      issues = issue ? [issue] : [];
+    } else {
+      issues = await this.linearClient.searchIssues(text, {
+        includeClosed: true,
+        first: INLINE_QUERY_RESULT_LIMIT,
+      });
+    }
 
-    let successMsg = `✅ <b>Ticket Created Successfully!</b>\n\n`;
-    successMsg += `━━━━━━━━━━━━━━━━━━━━━\n`;
-    successMsg += `🎫 <b>Ticket:</b> <a href="${linearUrl}">${issue.identifier}</a>\n`;
-    successMsg += `📌 <b>Title:</b> ${issue.title}\n`;
-    successMsg += `━━━━━━━━━━━━━━━━━━━━━\n\n`;
-    
-    successMsg += `📝 <b>Description:</b>\n<i>${command.description || 'No description'}</i>\n\n`;
-    
-    successMsg += `👤 <b>Assigned to:</b> ${actualAssignee}\n`;
-    successMsg += `📊 <b>Status:</b> ${issue.state?.name || 'Todo'}\n`;
-    successMsg += `🙋 <b>Requested by:</b> ${requestedBy}\n`;
-    successMsg += `🕐 <b>Created at:</b> ${createdAt}\n\n`;
-    
-    successMsg += `🔗 <a href="${linearUrl}">View in Linear</a>`;
+    await this.redis.setex(
+      key,
+      INLINE_QUERY_CACHE_SECONDS,
+      JSON.stringify(issues),
+    );
+    return issues;
+  }
 
-    await ctx.telegram.editMessageText(
-      ctx.chat!.id,
-      messageId,
-      undefined,
-      successMsg,
-      { 
-        parse_mode: 'HTML', 
+  private formatInlineResult(
+    issue: LinearIssueSummary,
+  ): InlineQueryResultArticle {
+    const linearUrl = `https://linear.app/mobulalabs/issue/${issue.identifier}`;
+    const assignee = issue.assignee?.name ?? 'Unassigned';
+    return {
+      type: 'article',
+      id: issue.id,
+      title: `${issue.identifier} — ${issue.title}`,
+      description: `${issue.state.name} · ${assignee}`,
+      input_message_content: {
+        message_text:
+          `🎫 <b>${issue.identifier}</b> — ${this.escapeHtml(issue.title)}\n\n` +
+          `<b>Status:</b> ${this.escapeHtml(issue.state.name)}\n` +
+          `${this.getProgressBar(issue.state.name)}\n` +
+          `<b>Assignee:</b> ${this.escapeHtml(assignee)}`,
+        parse_mode: 'HTML',
         link_preview_options: { is_disabled: true },
-        reply_markup: {
-          inline_keyboard: [
-            [
-              { text: '✏️ Edit', callback_data: `edit_${issue.identifier}` },
-              { text: '❌ Cancel', callback_data: `cancel_${issue.id}` },
-            ],
-            [
-              { text: '✅ Done', callback_data: `done_${issue.identifier}` },
-            ],
-          ],
-        },
       },
+      reply_markup: {
+        inline_keyboard: [[{ text: '🔗 Open in Linear', url: linearUrl }]],
+      },
+    };
+  }
+
+  /**
+   * Cycle name, dates, scope, per-assignee breakdown and a burndown with one bar per day so far.
+   * Counts points when the cycle's issues are estimated, issues otherwise.
+   */
+  private formatCycleReport(cycle: LinearCycleReport): string {
+    const issues = cycle.issues.nodes.filter(
+      (i) => i.state.type !== 'canceled',
+    );
+    const usePoints = issues.some((i) => i.estimate);
+    const weight = (i: { estimate: number | null }) =>
+      usePoints ? (i.estimate ?? 0) : 1;
+    const unit = usePoints ? 'pts' : 'issues';
+    const isDone = (i: { state: { type: string } }) =>
+      i.state.type === 'completed';
+    const sum = (list: typeof issues) =>
+      list.reduce((total, i) => total + weight(i), 0);
+
+    const day = (date: string) =>
+      new Date(date).toLocaleDateString('en-US', {
+        month: 'short',
+        day: 'numeric',
+      });
+    const dayMs = 24 * 60 * 60 * 1000;
+    const totalDays = Math.max(
+      1,
+      Math.round(
+        (Date.parse(cycle.endsAt) - Date.parse(cycle.startsAt)) / dayMs,
+      ),
     );
+    const elapsedDays =
+      Math.floor((Date.now() - Date.parse(cycle.startsAt)) / dayMs) + 1;
+
+    const done = issues.filter(isDone);
+    const scope = sum(issues);
+    const completed = sum(done);
+    const percent = scope ? Math.round((completed / scope) * 100) : 0;
+    const totalBlocks = 10;
+    const filledBlocks = Math.round((percent / 100) * totalBlocks);
+
+    let text = `🔁 <b>Cycle ${cycle.number}${cycle.name ? ` — ${this.escapeHtml(cycle.name)}` : ''}</b>\n`;
+    text += `📅 ${day(cycle.startsAt)} → ${day(cycle.endsAt)}`;
+    if (elapsedDays < 1) {
+      text += ` · starts in ${Math.ceil((Date.parse(cycle.startsAt) - Date.now()) / dayMs)} day(s)\n`;
+    } else if (elapsedDays > totalDays) {
+      text += ' · ended\n';
+    } else {
+      text += ` · day ${elapsedDays} of ${totalDays}\n`;
+    }
+
+    text += `\n<b>Scope:</b> ${issues.length} issue(s)${usePoints ? ` · ${scope} pts` : ''}\n`;
+    text += `<b>Completed:</b> ${done.length} issue(s)${usePoints ? ` · ${completed} pts` : ''}\n`;
+    text += `<b>Remaining:</b> ${issues.length - done.length} issue(s)${usePoints ? ` · ${scope - completed} pts` : ''}\n`;
+    text += `${'█'.repeat(filledBlocks)}${'░'.repeat(totalBlocks - filledBlocks)} ${percent}%\n`;
+
+    const byAssignee = new Map<string, typeof issues>();
+    for (const issue of issues) {
+      const name = issue.assignee?.name ?? 'Unassigned';
+      byAssignee.set(name, [...(byAssignee.get(name) ?? []), issue]);
+    }
+    if (byAssignee.size) {
+      text += `\n👥 <b>By assignee</b>\n`;
+      for (const [name, list] of [...byAssignee.entries()].sort(
+        ([, a], [, b]) => sum(b) - sum(a),
+      )) {
+        text += `• ${this.escapeHtml(name)} — ${sum(list.filter(isDone))}/${sum(list)} ${unit} done\n`;
+      }
+    }
+
+    // Linear keeps one history entry per day since the start of the cycle
+    const scopeHistory = usePoints
+      ? cycle.scopeHistory
+      : cycle.issueCountHistory;
+    const completedHistory = usePoints
+      ? cycle.completedScopeHistory
+      : cycle.completedIssueCountHistory;
+    if (scopeHistory.length) {
+      const maxScope = Math.max(...scopeHistory, 1);
+      const startScope = scopeHistory[0];
+      const rows = scopeHistory.map((dayScope, i) => {
+        const remaining = Math.max(0, dayScope - (completedHistory[i] ?? 0));
+        const ideal = Math.max(0, Math.round(startScope * (1 - i / totalDays)));
+        const blocks = Math.round((remaining / maxScope) * totalBlocks);
+        const date = day(
+          new Date(Date.parse(cycle.startsAt) + i * dayMs).toISOString(),
+        );
+        return `${date.padEnd(6)} ${'█'.repeat(blocks)}${'░'.repeat(totalBlocks - blocks)} ${remaining} (ideal ${ideal})`;
+      });
+      text += `\n📉 <b>Burndown</b> (${unit} remaining)\n<pre>${rows.join('\n')}</pre>`;
+    }
+
+    return text;
   }
 
-  private async getIssueIdFromIdentifier(identifier: string): Promise<string | null> {
+  private escapeHtml(str: string): string {
+    return str
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;');
+  }
+
+  private chatTeamKey(chatId: number): string {
+    return `chat:${chatId}:team`;
+  }
+
+  private async getChatTeamBinding(chatId: number): Promise<LinearTeam | null> {
+    const raw = await this.redis.get(this.chatTeamKey(chatId));
+    if (!raw) return null;
     try {
-      const query = `
-        query {
-          issue(id: "${identifier}") {
-            id
-          }
-        }`;
+      return JSON.parse(raw) as LinearTeam;
+    } catch {
+      return null;
+    }
+  }
+
+  // Team bound with /bindteam, or LINEAR_TEAM_ID when the chat has none
+  private async getChatTeamId(chatId: number): Promise<string> {
+    const binding = await this.getChatTeamBinding(chatId);
+    return binding?.id ?? this.linearClient.defaultTeamId;
+  }
+
+  /**
+   * The chat team's name, workflow states and labels for AI prompts.
+   * Cached per team since every mention needs it and it takes several Linear calls.
+   */
+  private async getTeamPromptContext(
+    chatId: number,
+  ): Promise<TeamPromptContext | undefined> {
+    try {
+      const teamId = await this.getChatTeamId(chatId);
+      const key = `team_prompt_context:${teamId}`;
+      const cached = await this.redis.get(key);
+      if (cached) return JSON.parse(cached) as TeamPromptContext;
+
+      const team =
+        (await this.getChatTeamBinding(chatId)) ??
+        (await this.linearClient.getTeams()).find((t) => t.id === teamId);
+      if (!team) return undefined;
+
+      const [states, labels] = await Promise.all([
+        this.linearClient.getWorkflowStates(teamId),
+        this.linearClient.getTeamLabels(teamId),
+      ]);
+      const context: TeamPromptContext = {
+        name: team.name,
+        key: team.key,
+        states: states.map((s) => s.name),
+        labels: labels.map((l) => l.name),
+      };
+      await this.redis.setex(
+        key,
+        TEAM_PROMPT_CONTEXT_CACHE_SECONDS,
+        JSON.stringify(context),
+      );
+      return context;
+    } catch (err) {
+      console.error('Failed to build team context for AI prompt:', err);
+      return undefined;
+    }
+  }
+
+  /**
+   * Match label names from the AI against the chat team's Linear labels, ignoring case
+   */
+  private async resolveLabels(
+    names: string[],
+    chatId: number,
+  ): Promise<{ labels: LinearLabel[]; unknown: string[] }> {
+    if (!names.length) return { labels: [], unknown: [] };
+
+    let available: LinearLabel[] = [];
+    try {
+      available = await this.linearClient.getTeamLabels(
+        await this.getChatTeamId(chatId),
+      );
+    } catch (err) {
+      console.error('Failed to fetch Linear labels:', err);
+    }
+
+    const labels: LinearLabel[] = [];
+    const unknown: string[] = [];
+    for (const name of names) {
+      const match = available.find(
+        (l) => l.name.toLowerCase() === name.toLowerCase().trim(),
+      );
+      if (match && !labels.includes(match)) labels.push(match);
+      if (!match) unknown.push(name);
+    }
+    return { labels, unknown };
+  }
 
-      const res = await axios.post(
-        this.config.get('LINEAR_API_URL'),
-        { query },
+  // Priority, labels, estimate and due date lines for ticket cards, empty when none are set
+  private formatTicketAttributes(issue: LinearIssue): string {
+    let lines = '';
+    if (issue.priority) {
+      lines += `🚩 <b>Priority:</b> ${issue.priorityLabel ?? issue.priority}\n`;
+    }
+    if (issue.labels?.nodes.length) {
+      lines += `🏷️ <b>Labels:</b> ${this.escapeHtml(issue.labels.nodes.map((l) => l.name).join(', '))}\n`;
+    }
+    if (issue.estimate != null) {
+      lines += `🎯 <b>Estimate:</b> ${issue.estimate} point${issue.estimate === 1 ? '' : 's'}\n`;
+    }
+    if (issue.dueDate) {
+      // Due dates are calendar days without a time zone
+      const due = new Date(`${issue.dueDate}T00:00:00Z`).toLocaleDateString(
+        'en-US',
         {
-          headers: {
-            Authorization: this.config.get('LINEAR_API_KEY'),
-            'Content-Type': 'application/json',
-          },
+          weekday: 'short',
+          month: 'short',
+          day: 'numeric',
+          timeZone: 'UTC',
         },
       );
+      lines += `📅 <b>Due:</b> ${due}\n`;
+    }
+    return lines;
+  }
 
-      return res.data.data?.issue?.id || null;
+  private async getIssueIdFromIdentifier(identifier: string): Promise<string | null> {
+    try {
+      return await this.linearClient.getIssueId(identifier);
     } catch (err) {
       console.error('Failed to get issue ID from identifier:', err);
       return null;
     }
   }
 
-  private async getStateIdByName(statusName: string): Promise<string | null> {
+  private async getStateIdByName(
+    statusName: string,
+    chatId: number,
+  ): Promise<string | null> {
     try {
-      const query = `
-        query {
-          workflowStates(filter: { team: { id: { eq: "${this.config.get('LINEAR_TEAM_ID')}" } } }) {
-            nodes {
-              id
-              name
-            }
-          }
-        }`;
-
-      const res = await axios.post(
-        this.config.get('LINEAR_API_URL'),
-        { query },
-        {
-          headers: {
-            Authorization: this.config.get('LINEAR_API_KEY'),
-            'Content-Type': 'application/json',
-          },
-        },
+      const states = await this.linearClient.getWorkflowStates(
+        await this.getChatTeamId(chatId),
       );
 
-      const states = res.data.data?.workflowStates?.nodes as { id: string; name: string }[] | undefined;
-      if (!states) return null;
-
       const normalizedStatus = statusName.toLowerCase().trim();
       const matchedState = states.find((s) => s.name.toLowerCase() === normalizedStatus);
       return matchedState?.id || null;
@@ -1489,18 +4919,166 @@ Ready to track your tickets! 📝`;
     }
   }
 
-  private isUserAuthorized(username: string | undefined): boolean {
-    return !!username && this.allowedUsernames.has(username);
+  /**
+   * Check the sender's role in this chat, or their global role when `chatId` is undefined, against the permission matrix
+   * Returns the message to show when denied, or null when allowed
+   */
+  private async checkPermission(
+    username: string | undefined,
+    chatId: number | undefined,
+    permission: BotPermission,
+  ): Promise<string | null> {
+    const role = await this.roles.getRole(username, chatId);
+    if (hasPermission(role, permission)) return null;
+    if (!role) {
+      return '❌ You are not authorized to use this bot.\nPlease contact the admin to get access.';
+    }
+    return `❌ You need the ${PERMISSION_MATRIX[permission]} role to ${PERMISSION_LABELS[permission]} (your role: ${role}).`;
+  }
+
+  /**
+   * Global roles apply in every chat, so only a global admin may change them, not an admin of this chat.
+   * Replies and returns true when the sender may not.
+   */
+  private async denyGlobalRoleChange(ctx: Context): Promise<boolean> {
+    const denial = await this.checkPermission(
+      ctx.from?.username,
+      undefined,
+      'manage',
+    );
+    if (!denial) return false;
+    await ctx.reply(
+      '❌ Only a global admin can change global roles. Add "chat" to only apply the role in this chat.',
+      { parse_mode: 'HTML' },
+    );
+    return true;
+  }
+
+  private formatRoleAssignments(assignments: Record<string, Role>): string {
+    const entries = Object.entries(assignments).sort(([a], [b]) =>
+      a.localeCompare(b),
+    );
+    if (!entries.length) return '<i>none</i>';
+    return entries
+      .map(([user, role]) => `@${this.escapeHtml(user)} — ${role}`)
+      .join('\n');
+  }
+
+  private formatUserMapping(mapping: UserMapping): string {
+    return (
+      `👤 <b>${this.escapeHtml(mapping.linearName)}</b> — @${this.escapeHtml(mapping.telegramUsername)}\n` +
+      `📧 ${this.escapeHtml(mapping.linearEmail)}\n` +
+      `🏷️ ${mapping.aliases.length ? this.escapeHtml(mapping.aliases.join(', ')) : '<i>no aliases</i>'}`
+    );
+  }
+
+  private formatDeadLetter(entry: DeadLetter): string {
+    const identifier = (
+      entry.payload.data as { identifier?: string } | undefined
+    )?.identifier;
+    return (
+      `⚠️ <b>${this.escapeHtml(entry.payload.type ?? 'Unknown')} ${this.escapeHtml(entry.payload.action)}</b>` +
+      (identifier ? ` — ${this.escapeHtml(identifier)}` : '') +
+      `\n<code>${this.escapeHtml(entry.id)}</code>\n\n` +
+      `<b>Error:</b> ${this.escapeHtml(entry.error)}\n` +
+      `<b>Failed:</b> ${this.formatDate(entry.failedAt)} · <b>Attempts:</b> ${entry.attempts}`
+    );
+  }
+
+  private deadLetterButtons(
+    id: string,
+  ): { text: string; callback_data: string }[] {
+    return [
+      { text: '🔁 Replay', callback_data: `dlq_replay_${id}` },
+      { text: '🗑️ Discard', callback_data: `dlq_discard_${id}` },
+    ];
+  }
+
+  /**
+   * Tell the admin chat that a webhook event could not be processed
+   */
+  async notifyDeadLetter(entry: DeadLetter): Promise<void> {
+    const adminChatId = this.config.get<string>('TELEGRAM_ADMIN_CHAT_ID');
+    if (!adminChatId || !this.bot) {
+      console.error(
+        `[DEAD LETTER] Webhook event ${entry.id} failed: ${entry.error}`,
+      );
+      return;
+    }
+
+    try {
+      await this.bot.telegram.sendMessage(
+        adminChatId,
+        this.formatDeadLetter(entry),
+        {
+          parse_mode: 'HTML',
+          reply_markup: { inline_keyboard: [this.deadLetterButtons(entry.id)] },
+        },
+      );
+    } catch (err) {
+      console.error('Failed to notify admin about dead letter:', err);
+    }
+  }
+
+  /**
+   * Post a chat's daily digest, built by DigestService
+   */
+  async postDigest(chatId: number, digest: string): Promise<void> {
+    if (!this.bot) throw new Error('Telegram bot not initialized');
+    await this.bot.telegram.sendMessage(chatId, digest, {
+      parse_mode: 'HTML',
+      link_preview_options: { is_disabled: true },
+    });
+  }
+
+  /**
+   * Post a stale ticket nudge or escalation, built by StaleTicketService, with snooze buttons
+   */
+  async notifyStaleTicket(
+    chatId: number | string,
+    text: string,
+    issueId: string,
+  ): Promise<void> {
+    if (!this.bot) throw new Error('Telegram bot not initialized');
+    await this.bot.telegram.sendMessage(chatId, text, {
+      parse_mode: 'HTML',
+      link_preview_options: { is_disabled: true },
+      reply_markup: {
+        inline_keyboard: [
+          Object.entries(STALE_SNOOZE_OPTIONS).map(([option, { label }]) => ({
+            text: `😴 ${label}`,
+            callback_data: `stale_snooze_${option}_${issueId}`,
+          })),
+        ],
+      },
+    });
+  }
+
+  // User-facing message for an AI call that produced no usable result
+  private formatAIFailure(reason: AIFailureReason, issues: string[]): string {
+    const details = issues.length
+      ? `\n\n${issues.map((i) => `• ${this.escapeHtml(i)}`).join('\n')}`
+      : '';
+    switch (reason) {
+      case 'empty':
+        return '❌ <b>The AI returned an empty answer</b>\n\nPlease try again.';
+      case 'invalid_json':
+        return `❌ <b>The AI answer could not be read</b>${details}\n\nPlease rephrase your request and try again.`;
+      case 'invalid_output':
+        return `❌ <b>Your request is missing some details</b>${details}\n\nPlease rephrase your request with that information.`;
+      default:
+        return '❌ <b>The AI service is unavailable</b>\n\nPlease try again later.';
+    }
   }
 
   /**
    * Send error message via DM to the user instead of posting publicly in the channel
-   * Deletes the processing message from the channel
+   * Deletes the processing message from the channel, when there is one
    * If DM fails, sends to the fallback admin (configured via TELEGRAM_ADMIN_USERNAME)
    */
   private async sendErrorViaDM(
     ctx: Context,
-    processingMessageId: number,
+    processingMessageId: number | null,
     errorMessage: string,
   ): Promise<void> {
     const userId = ctx.from?.id;
@@ -1510,7 +5088,7 @@ Ready to track your tickets! 📝`;
     
     // Delete the "Analyzing your request..." message from the channel
     try {
-      if (chatId) {
+      if (chatId && processingMessageId) {
         await ctx.telegram.deleteMessage(chatId, processingMessageId);
       }
     } catch (deleteErr) {
@@ -1606,43 +5184,9 @@ Ready to track your tickets! 📝`;
     return text.replace(regex, '').trim();
   }
 
-  private escapeGraphQLString(str: string): string {
-    return str
-      .replace(/\\/g, '\\\\')
-      .replace(/"/g, '\\"')
-      .replace(/\n/g, '\\n')
-      .replace(/\r/g, '\\r')
-      .replace(/\t/g, '\\t');
-  }
-
-  private async getActiveCycleId(): Promise<string | null> {
+  private async getActiveCycleId(teamId: string): Promise<string | null> {
     try {
-      const teamId = this.config.get('LINEAR_TEAM_ID');
-      const query = `
-        query {
-          team(id: "${teamId}") {
-            activeCycle {
-              id
-              name
-              startsAt
-              endsAt
-            }
-          }
-        }
-      `;
-
-      const res = await axios.post(
-        this.config.get('LINEAR_API_URL'),
-        { query },
-        {
-          headers: {
-            Authorization: this.config.get('LINEAR_API_KEY'),
-            'Content-Type': 'application/json',
-          },
-        },
-      );
-
-      const activeCycle = res.data.data?.team?.activeCycle;
+      const activeCycle = await this.linearClient.getActiveCycle(teamId);
       if (activeCycle) {
         console.log(`[LinearBot] Active cycle found: ${activeCycle.name} (${activeCycle.id})`);
         return activeCycle.id;
@@ -1660,57 +5204,26 @@ Ready to track your tickets! 📝`;
     title: string,
     description: string,
     assigneeId: string | null,
-  ): Promise<{ id: string; identifier: string; title: string; state?: { name: string }; assignee?: { id: string; name: string }; cycle?: { id: string; name: string } } | null> {
+    chatId: number,
+    extra: Pick<
+      IssueCreateInput,
+      'priority' | 'labelIds' | 'estimate' | 'dueDate' | 'stateId'
+    > = {},
+  ): Promise<LinearIssue | null> {
     try {
-      const escapedTitle = this.escapeGraphQLString(title);
-      const escapedDescription = this.escapeGraphQLString(description);
-      
-      // Get active cycle
-      const cycleId = await this.getActiveCycleId();
-      
-      let mutation = `
-        mutation {
-          issueCreate(input: {
-            title: "${escapedTitle}",
-            description: "${escapedDescription}",
-            teamId: "${this.config.get('LINEAR_TEAM_ID')}"`;
-      
-      if (assigneeId) {
-        mutation += `,
-            assigneeId: "${assigneeId}"`;
-      }
-      
-      if (cycleId) {
-        mutation += `,
-            cycleId: "${cycleId}"`;
-      }
-      
-      mutation += `
-          }) {
-            success
-            issue {
-              id
-              identifier
-              title
-              state { name }
-              assignee { id name }
-              cycle { id name }
-            }
-          }
-        }`;
-
-      const res = await axios.post(
-        this.config.get('LINEAR_API_URL'),
-        { query: mutation },
-        {
-          headers: {
-            Authorization: this.config.get('LINEAR_API_KEY'),
-            'Content-Type': 'application/json',
-          },
-        },
-      );
+      const teamId = await this.getChatTeamId(chatId);
 
-      return res.data.data?.issueCreate?.issue || null;
+      // Get active cycle
+      const cycleId = await this.getActiveCycleId(teamId);
+
+      return await this.linearClient.createIssue({
+        title,
+        description,
+        teamId,
+        assigneeId: assigneeId ?? undefined,
+        cycleId: cycleId ?? undefined,
+        ...extra,
+      });
     } catch (err) {
       console.error('Failed to create Linear issue:', err);
       return null;
@@ -1743,12 +5256,19 @@ Ready to track your tickets! 📝`;
   }
 
 
-  async updateIssueStatuss(issueId: string, status: string, comment?: { text: string; author: string; date?: string }) {
+  async updateIssueStatuss(
+    issueId: string,
+    newStatus: string,
+    comment?: { text: string; author: string; date?: string },
+    changeSet?: IssueChangeSet,
+  ) {
     const data = await this.redis.hgetall(`issue:${issueId}`);
     if (!Object.keys(data).length) return;
 
     console.debug('Updating issue from Redis', data);
 
+    // Comment webhooks carry no state, keep the last known one
+    const status = newStatus || data.status || '';
     const comments = this.parseComments(data.comments);
 
     if (comment) {
@@ -1759,6 +5279,19 @@ Ready to track your tickets! 📝`;
       });
     }
 
+    const titleChange = changeSet?.changes.find((c) => c.field === 'title');
+
+    const statusHistory = this.parseStatusHistory(data.statusHistory);
+    const statusChange = changeSet?.changes.find((c) => c.field === 'status');
+    if (statusChange) {
+      statusHistory.push({
+        from: statusChange.from,
+        to: statusChange.to,
+        actor: changeSet?.actor ?? null,
+        changedAt: new Date().toISOString(),
+      });
+    }
+
     const issue: TelegramLinearIssue = {
       chatId: Number.parseInt(data.chatId || '0', 10),
       username: data.username || '',
@@ -1767,40 +5300,76 @@ Ready to track your tickets! 📝`;
       team: data.team || '',
       issueId: data.issueId || '',
       identifier: data.identifier || '',
-      title: data.title || '',
+      title: titleChange?.to || data.title || '',
       description: data.description || '',
       status,
       createdAt: data.createdAt || '',
       updatedAt: new Date().toISOString(),
       comments,
+      statusHistory: statusHistory.slice(-STATUS_HISTORY_LIMIT),
     };
 
-    const redisData = { ...issue, comments: JSON.stringify(issue.comments) };
-    await this.redis.hset(`issue:${issueId}`, redisData);
-
     const progressBar = this.getProgressBar(status);
 
-    let msg = "🎫 *Ticket Updated*\n\n";
-    msg += `*${issue.identifier}* — ${issue.title}\n`;
+    let msg = changeSet?.removed
+      ? '🗑️ *Ticket Removed*\n\n'
+      : '🎫 *Ticket Updated*\n\n';
+    msg += `*${issue.identifier}* — ${this.escapeMarkdown(issue.title)}\n`;
+
+    if (!changeSet?.removed) {
+      msg += `*Status:* ${this.escapeMarkdown(status)}\n`;
+      msg += `${progressBar}\n`;
+    }
 
-    msg += `*Status:* ${status}\n`;
-    msg += `${progressBar}\n`;
+    if (changeSet?.changes.length) {
+      msg += `\n*Changes*${changeSet.actor ? ` by ${this.escapeMarkdown(changeSet.actor)}` : ''}:\n`;
+      for (const change of changeSet.changes) {
+        msg += `• *${ISSUE_FIELD_LABELS[change.field]}:* ${this.escapeMarkdown(change.from ?? 'none')} → ${this.escapeMarkdown(change.to ?? 'none')}\n`;
+      }
+    } else if (changeSet?.removed && changeSet.actor) {
+      msg += `\nRemoved by ${this.escapeMarkdown(changeSet.actor)}\n`;
+    }
 
     if (comment) {
-      msg += `*Comment by ${comment.author}:*\n${comment.text}\n`;
+      msg += `*Comment by ${this.escapeMarkdown(comment.author)}:*\n${this.escapeMarkdown(comment.text)}\n`;
     }
 
     msg += `\n_Updated on: ${this.formatDate(issue.updatedAt)}_`;
 
+    // Send before touching Redis: a failed send is dead-lettered and replayed, and the replay
+    // must find the issue as it was, without the comment or status move already recorded
+    let sent: Message.TextMessage;
     try {
       if (!this.bot) throw new Error('Telegram bot not initialized');
-      await this.bot.telegram.sendMessage(issue.chatId, msg, { parse_mode: 'Markdown' });
+      sent = await this.bot.telegram.sendMessage(issue.chatId, msg, {
+        parse_mode: 'Markdown',
+      });
     } catch (err: unknown) {
       if (err instanceof Error) {
         console.error('Failed to send Telegram update message', err.message);
       } else {
         console.error('Failed to send Telegram update message', String(err));
       }
+      // Let the webhook pipeline dead-letter the event so it can be replayed
+      throw err;
     }
+
+    if (changeSet?.removed) {
+      await this.redis.del(`issue:${issueId}`);
+      await this.redis.srem(`chat:${issue.chatId}:issues`, issueId);
+    } else {
+      const redisData = {
+        ...issue,
+        comments: JSON.stringify(issue.comments),
+        statusHistory: JSON.stringify(issue.statusHistory),
+      };
+      await this.redis.hset(`issue:${issueId}`, redisData);
+      await this.linkMessageToIssue(issue.chatId, sent.message_id, issueId);
+    }
+  }
+
+  // Escape characters that legacy Markdown parse mode treats as formatting
+  private escapeMarkdown(str: string): string {
+    return str.replace(/([_*`[])/g, '\\$1');
   }
 }
@@ -0,0 +1,591 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import axios from 'axios';
+import type LinearTrackerBotConfig from 'src/config/LinearBotConfig';
+
+export interface LinearUser {
+  id: string;
+  name: string;
+  displayName: string;
+  email: string;
+}
+
+export interface LinearTeam {
+  id: string;
+  name: string;
+  key: string;
+}
+
+export interface LinearWorkflowState {
+  id: string;
+  name: string;
+}
+
+export interface LinearLabel {
+  id: string;
+  name: string;
+}
+
+export interface LinearCycle {
+  id: string;
+  name: string | null;
+  startsAt: string;
+  endsAt: string;
+}
+
+// Which of a team's cycles to fetch, relative to today
+export type CycleSelector = 'active' | 'next' | 'previous';
+
+export interface LinearCycleReport extends LinearCycle {
+  number: number;
+  // One entry per day since the cycle started, empty for cycles that have not started
+  scopeHistory: number[];
+  completedScopeHistory: number[];
+  issueCountHistory: number[];
+  completedIssueCountHistory: number[];
+  issues: {
+    nodes: {
+      identifier: string;
+      estimate: number | null;
+      state: { name: string; type: string };
+      assignee: { name: string } | null;
+    }[];
+  };
+}
+
+export interface LinearIssue {
+  id: string;
+  identifier: string;
+  title: string;
+  description?: string | null;
+  state?: { name: string } | null;
+  assignee?: { id: string; name: string } | null;
+  cycle?: { id: string; name: string | null } | null;
+  // 0 = none, 1 = urgent, 2 = high, 3 = medium, 4 = low
+  priority?: number;
+  priorityLabel?: string;
+  estimate?: number | null;
+  dueDate?: string | null;
+  labels?: { nodes: LinearLabel[] };
+}
+
+export interface LinearIssueSummary {
+  id: string;
+  identifier: string;
+  title: string;
+  state: { name: string; type: string; position: number };
+  assignee: { id: string; name: string } | null;
+}
+
+// An issue as the daily digest and stale ticket checks see it
+export interface LinearIssueSnapshot extends LinearIssueSummary {
+  assignee: { id: string; name: string; email: string } | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface IssueListFilter {
+  teamId: string;
+  assigneeId?: string;
+  stateName?: string;
+  // Completed and cancelled issues are left out unless a state is requested explicitly
+  includeClosed?: boolean;
+  first?: number;
+}
+
+export interface IssueSearchFilter {
+  // All teams when unset
+  teamId?: string;
+  assigneeId?: string;
+  stateName?: string;
+  labelName?: string;
+  // Completed and cancelled issues are left out unless set
+  includeClosed?: boolean;
+  first?: number;
+}
+
+export interface IssueCreateInput {
+  title: string;
+  description?: string;
+  teamId: string;
+  assigneeId?: string | null;
+  cycleId?: string | null;
+  stateId?: string;
+  priority?: number;
+  labelIds?: string[];
+  estimate?: number | null;
+  dueDate?: string | null;
+}
+
+export interface IssueUpdateInput {
+  title?: string;
+  description?: string;
+  assigneeId?: string | null;
+  stateId?: string;
+  priority?: number;
+  labelIds?: string[];
+  estimate?: number | null;
+  dueDate?: string | null;
+}
+
+interface GraphQLError {
+  message: string;
+  extensions?: Record<string, unknown>;
+}
+
+interface GraphQLResponse<T> {
+  data?: T | null;
+  errors?: GraphQLError[];
+}
+
+/**
+ * Raised when Linear answers with a GraphQL `errors` array or an empty payload
+ */
+export class LinearApiError extends Error {
+  constructor(
+    message: string,
+    readonly errors: GraphQLError[] = [],
+  ) {
+    super(message);
+    this.name = 'LinearApiError';
+  }
+}
+
+const ISSUE_FIELDS = `
+  id
+  identifier
+  title
+  state { name }
+  assignee { id name }
+  cycle { id name }
+  priority
+  priorityLabel
+  estimate
+  dueDate
+  labels { nodes { id name } }
+`;
+
+// Ids per query when fetching issues by id
+const ISSUE_BATCH_SIZE = 100;
+
+@Injectable()
+export default class LinearClient {
+  constructor(
+    @Inject(ConfigService)
+    private readonly config: ConfigService<LinearTrackerBotConfig, true>,
+  ) {}
+
+  get defaultTeamId(): string {
+    return this.config.get<string>('LINEAR_TEAM_ID');
+  }
+
+  /**
+   * Run a GraphQL operation against Linear. Values are always passed as variables,
+   * never interpolated into the document.
+   */
+  async request<T>(
+    query: string,
+    variables: Record<string, unknown> = {},
+  ): Promise<T> {
+    const res = await axios.post<GraphQLResponse<T>>(
+      this.config.get<string>('LINEAR_API_URL'),
+      { query, variables },
+      {
+        headers: {
+          Authorization: this.config.get<string>('LINEAR_API_KEY'),
+          'Content-Type': 'application/json',
+        },
+        // Linear answers validation and "entity not found" errors with a 400 and an `errors` array,
+        // read it instead of letting axios throw
+        validateStatus: (status) => status < 500,
+      },
+    );
+
+    const { data, errors } = res.data ?? {};
+    if (errors?.length) {
+      throw new LinearApiError(errors.map((e) => e.message).join('; '), errors);
+    }
+    if (!data) {
+      throw new LinearApiError(
+        `Linear returned an empty response (HTTP ${res.status})`,
+      );
+    }
+    return data;
+  }
+
+  async getUsers(): Promise<LinearUser[]> {
+    const data = await this.request<{ users: { nodes: LinearUser[] } }>(
+      `query Users { users { nodes { id name displayName email } } }`,
+    );
+    return data.users.nodes;
+  }
+
+  async getTeams(): Promise<LinearTeam[]> {
+    const data = await this.request<{ teams: { nodes: LinearTeam[] } }>(
+      `query Teams { teams { nodes { id name key } } }`,
+    );
+    return data.teams.nodes;
+  }
+
+  async getIssueId(identifier: string): Promise<string | null> {
+    const data = await this.request<{ issue: { id: string } | null }>(
+      `query IssueId($id: String!) { issue(id: $id) { id } }`,
+      { id: identifier },
+    );
+    return data.issue?.id ?? null;
+  }
+
+  /**
+   * Look up an issue by id or identifier (e.g. MOB-1234), null when there is none
+   */
+  async getIssueSummary(
+    idOrIdentifier: string,
+  ): Promise<LinearIssueSummary | null> {
+    try {
+      const data = await this.request<{ issue: LinearIssueSummary | null }>(
+        `query IssueSummary($id: String!) {
+          issue(id: $id) {
+            id
+            identifier
+            title
+            state { name type position }
+            assignee { id name }
+          }
+        }`,
+        { id: idOrIdentifier },
+      );
+      return data.issue;
+    } catch (err) {
+      // Linear answers unknown issues with an "Entity not found" error
+      if (err instanceof LinearApiError) return null;
+      throw err;
+    }
+  }
+
+  async getWorkflowStates(teamId: string): Promise<LinearWorkflowState[]> {
+    const data = await this.request<{
+      workflowStates: { nodes: LinearWorkflowState[] };
+    }>(
+      `query WorkflowStates($teamId: ID!) {
+        workflowStates(filter: { team: { id: { eq: $teamId } } }) {
+          nodes { id name }
+        }
+      }`,
+      { teamId },
+    );
+    return data.workflowStates.nodes;
+  }
+
+  async getLabels(): Promise<LinearLabel[]> {
+    const data = await this.request<{ issueLabels: { nodes: LinearLabel[] } }>(
+      `query Labels { issueLabels(first: 250) { nodes { id name } } }`,
+    );
+    return data.issueLabels.nodes;
+  }
+
+  /**
+   * Labels usable on the team's issues: its own labels plus workspace-wide ones
+   */
+  async getTeamLabels(teamId: string): Promise<LinearLabel[]> {
+    const data = await this.request<{ issueLabels: { nodes: LinearLabel[] } }>(
+      `query TeamLabels($teamId: ID!) {
+        issueLabels(
+          first: 250
+          filter: { or: [{ team: { id: { eq: $teamId } } }, { team: { null: true } }] }
+        ) {
+          nodes { id name }
+        }
+      }`,
+      { teamId },
+    );
+    return data.issueLabels.nodes;
+  }
+
+  async getActiveCycle(teamId: string): Promise<LinearCycle | null> {
+    const data = await this.request<{
+      team: { activeCycle: LinearCycle | null } | null;
+    }>(
+      `query ActiveCycle($teamId: String!) {
+        team(id: $teamId) {
+          activeCycle { id name startsAt endsAt }
+        }
+      }`,
+      { teamId },
+    );
+    return data.team?.activeCycle ?? null;
+  }
+
+  /**
+   * The active, next or previous cycle of a team with its daily scope history and issues
+   */
+  async getCycleReport(
+    teamId: string,
+    which: CycleSelector,
+  ): Promise<LinearCycleReport | null> {
+    const flag = { active: 'isActive', next: 'isNext', previous: 'isPrevious' }[
+      which
+    ];
+    const data = await this.request<{
+      cycles: { nodes: LinearCycleReport[] };
+    }>(
+      `query CycleReport($filter: CycleFilter) {
+        cycles(filter: $filter, first: 1) {
+          nodes {
+            id
+            number
+            name
+            startsAt
+            endsAt
+            scopeHistory
+            completedScopeHistory
+            issueCountHistory
+            completedIssueCountHistory
+            issues(first: 250) {
+              nodes {
+                identifier
+                estimate
+                state { name type }
+                assignee { name }
+              }
+            }
+          }
+        }
+      }`,
+      { filter: { team: { id: { eq: teamId } }, [flag]: { eq: true } } },
+    );
+    return data.cycles.nodes[0] ?? null;
+  }
+
+  async listIssues(filter: IssueListFilter): Promise<LinearIssueSummary[]> {
+    const issueFilter: Record<string, unknown> = {
+      team: { id: { eq: filter.teamId } },
+    };
+    if (filter.assigneeId) {
+      issueFilter.assignee = { id: { eq: filter.assigneeId } };
+    }
+    if (filter.stateName) {
+      issueFilter.state = { name: { eqIgnoreCase: filter.stateName } };
+    } else if (!filter.includeClosed) {
+      issueFilter.state = { type: { nin: ['completed', 'canceled'] } };
+    }
+
+    const data = await this.request<{
+      issues: { nodes: LinearIssueSummary[] };
+    }>(
+      `query Issues($filter: IssueFilter, $first: Int) {
+        issues(filter: $filter, first: $first, orderBy: updatedAt) {
+          nodes {
+            id
+            identifier
+            title
+            state { name type position }
+            assignee { id name }
+          }
+        }
+      }`,
+      { filter: issueFilter, first: filter.first ?? 50 },
+    );
+    return data.issues.nodes;
+  }
+
+  /**
+   * Current state of the given issues. Issues that were deleted are left out.
+   */
+  async getIssuesById(ids: string[]): Promise<LinearIssueSnapshot[]> {
+    const issues: LinearIssueSnapshot[] = [];
+    for (let i = 0; i < ids.length; i += ISSUE_BATCH_SIZE) {
+      const batch = ids.slice(i, i + ISSUE_BATCH_SIZE);
+      const data = await this.request<{
+        issues: { nodes: LinearIssueSnapshot[] };
+      }>(
+        `query IssuesById($filter: IssueFilter, $first: Int) {
+          issues(filter: $filter, first: $first) {
+            nodes {
+              id
+              identifier
+              title
+              state { name type position }
+              assignee { id name email }
+              createdAt
+              updatedAt
+            }
+          }
+        }`,
+        { filter: { id: { in: batch } }, first: batch.length },
+      );
+      issues.push(...data.issues.nodes);
+    }
+    return issues;
+  }
+
+  /**
+   * Full-text search over issue titles and descriptions, best matches first
+   */
+  async searchIssues(
+    term: string,
+    filter: IssueSearchFilter,
+  ): Promise<LinearIssueSummary[]> {
+    const issueFilter: Record<string, unknown> = {};
+    if (filter.teamId) {
+      issueFilter.team = { id: { eq: filter.teamId } };
+    }
+    if (filter.assigneeId) {
+      issueFilter.assignee = { id: { eq: filter.assigneeId } };
+    }
+    if (filter.labelName) {
+      issueFilter.labels = {
+        some: { name: { eqIgnoreCase: filter.labelName } },
+      };
+    }
+    if (filter.stateName) {
+      issueFilter.state = { name: { eqIgnoreCase: filter.stateName } };
+    } else if (!filter.includeClosed) {
+      issueFilter.state = { type: { nin: ['completed', 'canceled'] } };
+    }
+
+    const data = await this.request<{
+      searchIssues: { nodes: LinearIssueSummary[] };
+    }>(
+      `query SearchIssues($term: String!, $filter: IssueFilter, $first: Int) {
+        searchIssues(term: $term, filter: $filter, first: $first) {
+          nodes {
+            id
+            identifier
+            title
+            state { name type position }
+            assignee { id name }
+          }
+        }
+      }`,
+      { term, filter: issueFilter, first: filter.first ?? 10 },
+    );
+    return data.searchIssues.nodes;
+  }
+
+  /**
+   * Upload a file through Linear's upload flow (signed URL, then PUT) and return its asset URL,
+   * which can be embedded in issue descriptions and comments as markdown
+   */
+  async uploadFile(
+    data: Buffer,
+    contentType: string,
+    filename: string,
+  ): Promise<string | null> {
+    const res = await this.request<{
+      fileUpload: {
+        success: boolean;
+        uploadFile: {
+          uploadUrl: string;
+          assetUrl: string;
+          headers: { key: string; value: string }[];
+        } | null;
+      };
+    }>(
+      `mutation FileUpload($contentType: String!, $filename: String!, $size: Int!) {
+        fileUpload(contentType: $contentType, filename: $filename, size: $size) {
+          success
+          uploadFile {
+            uploadUrl
+            assetUrl
+            headers { key value }
+          }
+        }
+      }`,
+      { contentType, filename, size: data.length },
+    );
+    const upload = res.fileUpload.uploadFile;
+    if (!res.fileUpload.success || !upload) return null;
+
+    await axios.put(upload.uploadUrl, data, {
+      headers: {
+        'Content-Type': contentType,
+        'Cache-Control': 'public, max-age=31536000',
+        ...Object.fromEntries(upload.headers.map((h) => [h.key, h.value])),
+      },
+    });
+    return upload.assetUrl;
+  }
+
+  async createIssue(input: IssueCreateInput): Promise<LinearIssue | null> {
+    const data = await this.request<{
+      issueCreate: { success: boolean; issue: LinearIssue | null };
+    }>(
+      `mutation IssueCreate($input: IssueCreateInput!) {
+        issueCreate(input: $input) {
+          success
+          issue { ${ISSUE_FIELDS} }
+        }
+      }`,
+      { input: this.compact(input) },
+    );
+    return data.issueCreate.success ? data.issueCreate.issue : null;
+  }
+
+  async updateIssue(
+    id: string,
+    input: IssueUpdateInput,
+  ): Promise<LinearIssue | null> {
+    const data = await this.request<{
+      issueUpdate: { success: boolean; issue: LinearIssue | null };
+    }>(
+      `mutation IssueUpdate($id: String!, $input: IssueUpdateInput!) {
+        issueUpdate(id: $id, input: $input) {
+          success
+          issue { ${ISSUE_FIELDS} description }
+        }
+      }`,
+      { id, input: this.compact(input) },
+    );
+    return data.issueUpdate.success ? data.issueUpdate.issue : null;
+  }
+
+  async createComment(
+    issueId: string,
+    body: string,
+  ): Promise<{ id: string } | null> {
+    const data = await this.request<{
+      commentCreate: { success: boolean; comment: { id: string } | null };
+    }>(
+      `mutation CommentCreate($input: CommentCreateInput!) {
+        commentCreate(input: $input) {
+          success
+          comment { id }
+        }
+      }`,
+      { input: { issueId, body } },
+    );
+    return data.commentCreate.success ? data.commentCreate.comment : null;
+  }
+
+  async archiveIssue(id: string): Promise<boolean> {
+    const data = await this.request<{ issueArchive: { success: boolean } }>(
+      `mutation IssueArchive($id: String!) { issueArchive(id: $id) { success } }`,
+      { id },
+    );
+    return data.issueArchive.success;
+  }
+
+  // Restores archived issues and issues in the trash
+  async unarchiveIssue(id: string): Promise<boolean> {
+    const data = await this.request<{ issueUnarchive: { success: boolean } }>(
+      `mutation IssueUnarchive($id: String!) { issueUnarchive(id: $id) { success } }`,
+      { id },
+    );
+    return data.issueUnarchive.success;
+  }
+
+  async deleteIssue(id: string): Promise<boolean> {
+    const data = await this.request<{ issueDelete: { success: boolean } }>(
+      `mutation IssueDelete($id: String!) { issueDelete(id: $id) { success } }`,
+      { id },
+    );
+    return data.issueDelete.success;
+  }
+
+  // Drop undefined keys so Linear does not treat them as explicit nulls
+  private compact<T extends object>(input: T): Partial<T> {
+    return Object.fromEntries(
+      Object.entries(input).filter(([, value]) => value !== undefined),
+    ) as Partial<T>;
+  }
+}
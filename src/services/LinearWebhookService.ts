@@ -0,0 +1,331 @@
+import { forwardRef, Inject, Injectable } from '@nestjs/common';
+import type Redis from 'ioredis';
+import LinearClient from './LinearClient';
+import LinearTrackerBot, { type IssueFieldChange } from './LinearBotService';
+
+export interface LinearWebhookPayload {
+  action: string;
+  type?: string;
+  actor?: { id?: string; name?: string };
+  webhookId?: string;
+  webhookTimestamp?: number;
+  // biome-ignore lint/suspicious/noExplicitAny: <any>
+  data: any;
+  // Previous values of the fields that changed, only sent on update
+  updatedFrom?: Record<string, unknown>;
+}
+
+export interface DeadLetter {
+  id: string;
+  payload: LinearWebhookPayload;
+  error: string;
+  failedAt: string;
+  attempts: number;
+}
+
+interface LinearIssueWebhookData {
+  id: string;
+  identifier: string;
+  title: string;
+  teamId?: string;
+  priority?: number;
+  priorityLabel?: string;
+  dueDate?: string | null;
+  state?: { id: string; name: string };
+  assignee?: { id: string; name: string } | null;
+  labelIds?: string[];
+  labels?: { id: string; name: string }[];
+}
+
+const PRIORITY_LABELS = ['No priority', 'Urgent', 'High', 'Medium', 'Low'];
+
+// Linear retries deliveries for a few hours at most, a day of dedupe keys is plenty
+const DELIVERY_DEDUP_TTL_SECONDS = 24 * 60 * 60;
+const DEAD_LETTERS_KEY = 'webhook:dead_letters';
+
+@Injectable()
+export default class LinearWebhookService {
+  constructor(
+    @Inject('REDIS') private readonly redis: Redis,
+    @Inject(LinearClient) private readonly linearClient: LinearClient,
+    @Inject(forwardRef(() => LinearTrackerBot))
+    private readonly linearTrackerBot: LinearTrackerBot,
+  ) {}
+
+  /**
+   * Delivery ID from the `Linear-Delivery` header, or one derived from the payload when missing
+   */
+  resolveDeliveryId(
+    header: string | undefined,
+    payload: LinearWebhookPayload,
+  ): string {
+    if (header) return header;
+    return `${payload.webhookId ?? 'unknown'}:${payload.webhookTimestamp ?? Date.now()}`;
+  }
+
+  /**
+   * Process a delivery once. Duplicates are dropped, failures go to the dead-letter store.
+   */
+  async handleDelivery(
+    deliveryId: string,
+    payload: LinearWebhookPayload,
+  ): Promise<void> {
+    const isNew = await this.redis.set(
+      `webhook:delivery:${deliveryId}`,
+      '1',
+      'EX',
+      DELIVERY_DEDUP_TTL_SECONDS,
+      'NX',
+    );
+    if (!isNew) {
+      console.log(`Skipping duplicate webhook delivery ${deliveryId}`);
+      return;
+    }
+
+    try {
+      await this.process(payload);
+    } catch (err) {
+      console.error(`Webhook delivery ${deliveryId} failed:`, err);
+      await this.deadLetter(deliveryId, payload, err, 1);
+    }
+  }
+
+  async listDeadLetters(): Promise<DeadLetter[]> {
+    const entries = await this.redis.hvals(DEAD_LETTERS_KEY);
+    return entries
+      .map((raw) => {
+        try {
+          return JSON.parse(raw) as DeadLetter;
+        } catch {
+          return null;
+        }
+      })
+      .filter((entry): entry is DeadLetter => entry !== null)
+      .sort((a, b) => a.failedAt.localeCompare(b.failedAt));
+  }
+
+  async getDeadLetter(id: string): Promise<DeadLetter | null> {
+    const raw = await this.redis.hget(DEAD_LETTERS_KEY, id);
+    return raw ? (JSON.parse(raw) as DeadLetter) : null;
+  }
+
+  /**
+   * Run a dead-lettered event again. It is removed on success and kept with
+   * the new error otherwise.
+   */
+  async replayDeadLetter(
+    id: string,
+  ): Promise<{ found: boolean; success: boolean; error?: string }> {
+    const entry = await this.getDeadLetter(id);
+    if (!entry) return { found: false, success: false };
+
+    try {
+      await this.process(entry.payload);
+      await this.redis.hdel(DEAD_LETTERS_KEY, id);
+      return { found: true, success: true };
+    } catch (err) {
+      await this.deadLetter(id, entry.payload, err, entry.attempts + 1);
+      return { found: true, success: false, error: this.errorMessage(err) };
+    }
+  }
+
+  async discardDeadLetter(id: string): Promise<boolean> {
+    return (await this.redis.hdel(DEAD_LETTERS_KEY, id)) > 0;
+  }
+
+  private async deadLetter(
+    id: string,
+    payload: LinearWebhookPayload,
+    err: unknown,
+    attempts: number,
+  ): Promise<void> {
+    const entry: DeadLetter = {
+      id,
+      payload,
+      error: this.errorMessage(err),
+      failedAt: new Date().toISOString(),
+      attempts,
+    };
+    await this.redis.hset(DEAD_LETTERS_KEY, id, JSON.stringify(entry));
+
+    if (attempts === 1) {
+      await this.linearTrackerBot.notifyDeadLetter(entry);
+    }
+  }
+
+  private errorMessage(err: unknown): string {
+    return err instanceof Error ? err.message : String(err);
+  }
+
+  private async process(payload: LinearWebhookPayload): Promise<void> {
+    if (payload.action === 'update' && payload.type === 'Issue') {
+      const issue = payload.data as LinearIssueWebhookData;
+      if (!issue?.id || !issue.identifier) return;
+      // Most workspace issues were not created from Telegram, skip them before any Linear lookup
+      if (!(await this.redis.exists(`issue:${issue.id}`))) return;
+
+      const changes = await this.collectIssueChanges(
+        issue,
+        payload.updatedFrom ?? {},
+      );
+      if (!changes.length) return;
+
+      await this.linearTrackerBot.updateIssueStatuss(
+        issue.id,
+        issue.state?.name ?? '',
+        undefined,
+        { actor: payload.actor?.name ?? null, changes },
+      );
+    }
+
+    if (payload.action === 'remove' && payload.type === 'Issue') {
+      const issue = payload.data as LinearIssueWebhookData;
+      if (!issue?.id) return;
+
+      await this.linearTrackerBot.updateIssueStatuss(
+        issue.id,
+        issue.state?.name ?? '',
+        undefined,
+        { actor: payload.actor?.name ?? null, changes: [], removed: true },
+      );
+    }
+
+    if (payload.action === 'create' && payload.type === 'Comment') {
+      const { id, body, issue, user, createdAt } = payload.data as {
+        id?: string;
+        body?: string;
+        issue?: { id?: string };
+        user?: { name?: string };
+        createdAt?: string;
+      };
+      if (body && issue?.id && user?.name) {
+        // Comments posted from a Telegram reply are already in the chat
+        if (await this.linearTrackerBot.isOwnComment(id, body)) return;
+
+        await this.linearTrackerBot.updateIssueStatuss(issue.id, '', {
+          text: body,
+          author: user.name,
+          date: createdAt,
+        });
+      }
+    }
+  }
+
+  /**
+   * Work out which tracked fields changed from Linear's `updatedFrom` payload.
+   * `updatedFrom` only holds ids for relations, so names are looked up for the old values.
+   */
+  private async collectIssueChanges(
+    issue: LinearIssueWebhookData,
+    updatedFrom: Record<string, unknown>,
+  ): Promise<IssueFieldChange[]> {
+    const changes: IssueFieldChange[] = [];
+
+    if ('stateId' in updatedFrom) {
+      changes.push({
+        field: 'status',
+        from: await this.lookupStateName(
+          issue.teamId,
+          updatedFrom.stateId as string | null,
+        ),
+        to: issue.state?.name ?? null,
+      });
+    }
+
+    if ('assigneeId' in updatedFrom) {
+      changes.push({
+        field: 'assignee',
+        from: await this.lookupUserName(
+          updatedFrom.assigneeId as string | null,
+        ),
+        to: issue.assignee?.name ?? null,
+      });
+    }
+
+    if ('priority' in updatedFrom) {
+      changes.push({
+        field: 'priority',
+        from: PRIORITY_LABELS[updatedFrom.priority as number] ?? null,
+        to: issue.priorityLabel ?? PRIORITY_LABELS[issue.priority ?? 0] ?? null,
+      });
+    }
+
+    if ('title' in updatedFrom) {
+      changes.push({
+        field: 'title',
+        from: (updatedFrom.title as string | null) ?? null,
+        to: issue.title,
+      });
+    }
+
+    if ('dueDate' in updatedFrom) {
+      changes.push({
+        field: 'dueDate',
+        from: (updatedFrom.dueDate as string | null) ?? null,
+        to: issue.dueDate ?? null,
+      });
+    }
+
+    if ('labelIds' in updatedFrom) {
+      const previousIds = (updatedFrom.labelIds as string[] | null) ?? [];
+      const previousNames = await this.lookupLabelNames(
+        previousIds,
+        issue.labels ?? [],
+      );
+      const currentNames = (issue.labels ?? []).map((l) => l.name);
+      changes.push({
+        field: 'labels',
+        from: previousNames.length ? previousNames.join(', ') : null,
+        to: currentNames.length ? currentNames.join(', ') : null,
+      });
+    }
+
+    return changes;
+  }
+
+  private async lookupStateName(
+    teamId: string | undefined,
+    stateId: string | null,
+  ): Promise<string | null> {
+    if (!stateId) return null;
+    try {
+      const states = await this.linearClient.getWorkflowStates(
+        teamId ?? this.linearClient.defaultTeamId,
+      );
+      return states.find((s) => s.id === stateId)?.name ?? null;
+    } catch (err) {
+      console.error('Failed to look up previous state:', err);
+      return null;
+    }
+  }
+
+  private async lookupUserName(userId: string | null): Promise<string | null> {
+    if (!userId) return null;
+    try {
+      const users = await this.linearClient.getUsers();
+      return users.find((u) => u.id === userId)?.name ?? null;
+    } catch (err) {
+      console.error('Failed to look up previous assignee:', err);
+      return null;
+    }
+  }
+
+  private async lookupLabelNames(
+    labelIds: string[],
+    known: { id: string; name: string }[],
+  ): Promise<string[]> {
+    const names = new Map(known.map((l) => [l.id, l.name]));
+    if (labelIds.some((id) => !names.has(id))) {
+      try {
+        for (const label of await this.linearClient.getLabels()) {
+          names.set(label.id, label.name);
+        }
+      } catch (err) {
+        console.error('Failed to look up previous labels:', err);
+      }
+    }
+    return labelIds
+      .map((id) => names.get(id))
+      .filter((name): name is string => !!name);
+  }
+}
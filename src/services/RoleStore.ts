@@ -0,0 +1,100 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import type Redis from 'ioredis';
+import type LinearTrackerBotConfig from 'src/config/LinearBotConfig';
+import type { Role } from 'src/config/permissions';
+
+const GLOBAL_ROLES_KEY = 'roles:global';
+
+export interface RoleAssignments {
+  global: Record<string, Role>;
+  chat: Record<string, Role>;
+}
+
+/**
+ * Telegram user roles, stored in Redis. A role set for a chat overrides the global one.
+ * TELEGRAM_ADMIN_USERNAME is always admin, and TELEGRAM_ALLOWED_USERNAMES are members
+ * until given another role.
+ */
+@Injectable()
+export default class RoleStore {
+  private readonly adminUsername: string;
+  private readonly defaultMembers: Set<string>;
+
+  constructor(
+    @Inject(ConfigService)
+    private readonly config: ConfigService<LinearTrackerBotConfig, true>,
+    @Inject('REDIS') private readonly redis: Redis,
+  ) {
+    this.adminUsername = this.keyFor(
+      this.config.get<string>('TELEGRAM_ADMIN_USERNAME') || '',
+    );
+    const usernames =
+      this.config.get<string>('TELEGRAM_ALLOWED_USERNAMES') || '';
+    this.defaultMembers = new Set(
+      usernames
+        .split(',')
+        .map((u) => this.keyFor(u))
+        .filter(Boolean),
+    );
+  }
+
+  async getRole(
+    username: string | undefined,
+    chatId?: number,
+  ): Promise<Role | null> {
+    if (!username) return null;
+    const key = this.keyFor(username);
+    if (this.adminUsername && key === this.adminUsername) return 'admin';
+
+    if (chatId !== undefined) {
+      const chatRole = await this.redis.hget(this.chatRolesKey(chatId), key);
+      if (chatRole) return chatRole as Role;
+    }
+
+    const globalRole = await this.redis.hget(GLOBAL_ROLES_KEY, key);
+    if (globalRole) return globalRole as Role;
+
+    return this.defaultMembers.has(key) ? 'member' : null;
+  }
+
+  /**
+   * Give a user a role, for one chat when `chatId` is set and globally otherwise
+   */
+  async setRole(username: string, role: Role, chatId?: number): Promise<void> {
+    await this.redis.hset(this.scopeKey(chatId), this.keyFor(username), role);
+  }
+
+  async clearRole(username: string, chatId?: number): Promise<boolean> {
+    return (
+      (await this.redis.hdel(this.scopeKey(chatId), this.keyFor(username))) > 0
+    );
+  }
+
+  async listRoles(chatId: number): Promise<RoleAssignments> {
+    const [global, chat] = await Promise.all([
+      this.redis.hgetall(GLOBAL_ROLES_KEY),
+      this.redis.hgetall(this.chatRolesKey(chatId)),
+    ]);
+    return {
+      global: global as Record<string, Role>,
+      chat: chat as Record<string, Role>,
+    };
+  }
+
+  isConfigAdmin(username: string): boolean {
+    return !!this.adminUsername && this.keyFor(username) === this.adminUsername;
+  }
+
+  private scopeKey(chatId?: number): string {
+    return chatId === undefined ? GLOBAL_ROLES_KEY : this.chatRolesKey(chatId);
+  }
+
+  private chatRolesKey(chatId: number): string {
+    return `chat:${chatId}:roles`;
+  }
+
+  private keyFor(username: string): string {
+    return username.trim().replace('@', '').toLowerCase();
+  }
+}
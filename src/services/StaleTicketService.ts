@@ -0,0 +1,343 @@
+import {
+  forwardRef,
+  Inject,
+  Injectable,
+  type OnModuleDestroy,
+  type OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import type Redis from 'ioredis';
+import type LinearTrackerBotConfig from 'src/config/LinearBotConfig';
+import LinearClient, { type LinearIssueSnapshot } from './LinearClient';
+import LinearTrackerBot from './LinearBotService';
+import UserMappingStore from './UserMappingStore';
+
+export interface StaleRule {
+  // Workflow state name, compared case-insensitively
+  state: string;
+  nudgeAfterSeconds: number;
+  // No escalation when null
+  escalateAfterSeconds: number | null;
+}
+
+// Where a stale ticket is in the nudge/escalate cycle. Reset when Linear's updatedAt moves.
+interface StaleTracking {
+  updatedAt: string;
+  nudgedAt: number | null;
+  escalated: boolean;
+}
+
+// Held by the replica running a check, so only one of them nudges
+const CHECK_LOCK_KEY = 'stale:check_lock';
+// Forget about tickets nobody touched for this long
+const TRACKING_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+const DURATION_PATTERN = /^(\d+)\s*(m|min|h|d|w)$/i;
+const UNIT_SECONDS: Record<string, number> = {
+  m: 60,
+  min: 60,
+  h: 3600,
+  d: 86400,
+  w: 7 * 86400,
+};
+
+/**
+ * Nudges assignees about tickets that sit in a workflow state for too long (per STALE_RULES or /stale),
+ * and tells the admin chat when they sit there longer still
+ */
+@Injectable()
+export default class StaleTicketService
+  implements OnModuleInit, OnModuleDestroy
+{
+  private timer?: NodeJS.Timeout;
+  private readonly defaultRules: StaleRule[];
+
+  constructor(
+    @Inject(ConfigService)
+    private readonly config: ConfigService<LinearTrackerBotConfig, true>,
+    @Inject('REDIS') private readonly redis: Redis,
+    @Inject(LinearClient) private readonly linearClient: LinearClient,
+    @Inject(UserMappingStore) private readonly userMappings: UserMappingStore,
+    @Inject(forwardRef(() => LinearTrackerBot))
+    private readonly linearTrackerBot: LinearTrackerBot,
+  ) {
+    this.defaultRules = this.parseRuleList(
+      this.config.get<string>('STALE_RULES'),
+    );
+  }
+
+  onModuleInit() {
+    this.timer = setInterval(() => {
+      this.check().catch((err) => {
+        console.error('Failed to check for stale tickets:', err);
+      });
+    }, this.intervalSeconds() * 1000);
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.timer);
+  }
+
+  /**
+   * Rules in effect for a chat: STALE_RULES with the chat's /stale overrides on top
+   */
+  async getRules(chatId: number): Promise<StaleRule[]> {
+    const rules = new Map(
+      this.defaultRules.map((rule) => [rule.state.toLowerCase(), rule]),
+    );
+    const overrides = await this.redis.hgetall(this.rulesKey(chatId));
+    for (const [state, value] of Object.entries(overrides)) {
+      if (value === 'off') {
+        rules.delete(state.toLowerCase());
+        continue;
+      }
+      const [nudge, escalate] = value.split('/').map(Number);
+      rules.set(state.toLowerCase(), {
+        state,
+        nudgeAfterSeconds: nudge,
+        escalateAfterSeconds: escalate || null,
+      });
+    }
+    return [...rules.values()];
+  }
+
+  /**
+   * Set a chat's rule for a state, or turn nudges off for it when `rule` is null
+   */
+  async setRule(
+    chatId: number,
+    state: string,
+    rule: Omit<StaleRule, 'state'> | null,
+  ): Promise<void> {
+    const key = this.rulesKey(chatId);
+    // One field per state whatever the casing it was typed with
+    const existing = await this.redis.hkeys(key);
+    const stale = existing.filter(
+      (s) => s.toLowerCase() === state.toLowerCase(),
+    );
+    if (stale.length) await this.redis.hdel(key, ...stale);
+
+    await this.redis.hset(
+      key,
+      state,
+      rule
+        ? `${rule.nudgeAfterSeconds}/${rule.escalateAfterSeconds ?? ''}`
+        : 'off',
+    );
+  }
+
+  async resetRules(chatId: number): Promise<void> {
+    await this.redis.del(this.rulesKey(chatId));
+  }
+
+  /**
+   * Parse "2d" and an optional "4d" into rule thresholds; the escalation must come after the nudge
+   */
+  parseThresholds(
+    nudge: string,
+    escalate?: string,
+  ): Omit<StaleRule, 'state'> | null {
+    const nudgeAfterSeconds = this.parseDuration(nudge);
+    const escalateAfterSeconds = escalate ? this.parseDuration(escalate) : null;
+    if (!nudgeAfterSeconds || (escalate && !escalateAfterSeconds)) return null;
+    if (escalateAfterSeconds && escalateAfterSeconds <= nudgeAfterSeconds) {
+      return null;
+    }
+    return { nudgeAfterSeconds, escalateAfterSeconds };
+  }
+
+  /**
+   * Stop nudging and escalating a ticket for a while
+   */
+  async snooze(issueId: string, seconds: number): Promise<void> {
+    await this.redis.set(this.snoozeKey(issueId), '1', 'EX', seconds);
+  }
+
+  private async check(): Promise<void> {
+    // Expires a little before the next tick so the same replica can take it again
+    const claimed = await this.redis.set(
+      CHECK_LOCK_KEY,
+      new Date().toISOString(),
+      'EX',
+      Math.max(this.intervalSeconds() - 30, 30),
+      'NX',
+    );
+    if (!claimed) return;
+
+    let cursor = '0';
+    do {
+      const [next, keys] = await this.redis.scan(
+        cursor,
+        'MATCH',
+        'chat:*:issues',
+        'COUNT',
+        100,
+      );
+      cursor = next;
+      for (const key of keys) {
+        const chatId = Number(key.split(':')[1]);
+        try {
+          await this.checkChat(chatId);
+        } catch (err) {
+          console.error(
+            `Failed to check stale tickets for chat ${chatId}:`,
+            err,
+          );
+        }
+      }
+    } while (cursor !== '0');
+  }
+
+  private async checkChat(chatId: number): Promise<void> {
+    const rules = await this.getRules(chatId);
+    if (!rules.length) return;
+
+    const issueIds = await this.redis.smembers(`chat:${chatId}:issues`);
+    if (!issueIds.length) return;
+
+    const adminChatId = this.config.get<string>('TELEGRAM_ADMIN_CHAT_ID');
+    const now = Date.now();
+
+    for (const issue of await this.linearClient.getIssuesById(issueIds)) {
+      if (['completed', 'canceled'].includes(issue.state.type)) continue;
+      const rule = rules.find(
+        (r) => r.state.toLowerCase() === issue.state.name.toLowerCase(),
+      );
+      if (!rule) continue;
+
+      const ageSeconds = (now - Date.parse(issue.updatedAt)) / 1000;
+      if (ageSeconds < rule.nudgeAfterSeconds) continue;
+      if (await this.redis.exists(this.snoozeKey(issue.id))) continue;
+
+      let tracking = await this.getTracking(issue.id);
+      if (tracking?.updatedAt !== issue.updatedAt) {
+        tracking = {
+          updatedAt: issue.updatedAt,
+          nudgedAt: null,
+          escalated: false,
+        };
+      }
+
+      // Nudges repeat at the rule's interval until the ticket moves or is snoozed
+      if (
+        !tracking.nudgedAt ||
+        now - tracking.nudgedAt >= rule.nudgeAfterSeconds * 1000
+      ) {
+        await this.linearTrackerBot.notifyStaleTicket(
+          chatId,
+          this.formatNudge(issue, ageSeconds),
+          issue.id,
+        );
+        tracking.nudgedAt = now;
+      }
+
+      if (
+        adminChatId &&
+        rule.escalateAfterSeconds &&
+        ageSeconds >= rule.escalateAfterSeconds &&
+        !tracking.escalated
+      ) {
+        await this.linearTrackerBot.notifyStaleTicket(
+          adminChatId,
+          this.formatEscalation(issue, ageSeconds),
+          issue.id,
+        );
+        tracking.escalated = true;
+      }
+
+      await this.redis.set(
+        this.trackingKey(issue.id),
+        JSON.stringify(tracking),
+        'EX',
+        TRACKING_TTL_SECONDS,
+      );
+    }
+  }
+
+  private formatNudge(issue: LinearIssueSnapshot, ageSeconds: number): string {
+    let assignee = 'Nobody is assigned to it yet.';
+    if (issue.assignee) {
+      const mapping =
+        this.userMappings.findLinearUserByIdentifier(issue.assignee.email) ??
+        this.userMappings.findLinearUserByIdentifier(issue.assignee.name);
+      assignee = `${mapping ? `@${mapping.telegramUsername}` : this.escapeHtml(issue.assignee.name)}, can you take a look?`;
+    }
+    return (
+      `⏰ <b>Stale ticket</b>\n\n${this.issueLink(issue)}\n` +
+      `In <b>${this.escapeHtml(issue.state.name)}</b> for ${this.formatAge(ageSeconds)} without an update.\n\n${assignee}`
+    );
+  }
+
+  private formatEscalation(
+    issue: LinearIssueSnapshot,
+    ageSeconds: number,
+  ): string {
+    return (
+      `🚨 <b>Stale ticket escalated</b>\n\n${this.issueLink(issue)}\n` +
+      `In <b>${this.escapeHtml(issue.state.name)}</b> for ${this.formatAge(ageSeconds)} without an update · ` +
+      `<i>${this.escapeHtml(issue.assignee?.name ?? 'Unassigned')}</i>`
+    );
+  }
+
+  private issueLink(issue: LinearIssueSnapshot): string {
+    return `<a href="https://linear.app/mobulalabs/issue/${issue.identifier}">${issue.identifier}</a> ${this.escapeHtml(issue.title)}`;
+  }
+
+  private formatAge(seconds: number): string {
+    if (seconds < 2 * 86400) return `${Math.floor(seconds / 3600)} hours`;
+    return `${Math.floor(seconds / 86400)} days`;
+  }
+
+  /**
+   * "In Review=2d/4d,To QA=2d" -> rules; malformed entries are skipped
+   */
+  private parseRuleList(value: string): StaleRule[] {
+    const rules: StaleRule[] = [];
+    for (const entry of value.split(',').filter((e) => e.trim())) {
+      const [state, thresholds = ''] = entry.split('=');
+      const [nudge, escalate] = thresholds.split('/');
+      const rule = this.parseThresholds(nudge, escalate);
+      if (!state.trim() || !rule) {
+        console.error(`Ignoring invalid STALE_RULES entry: ${entry}`);
+        continue;
+      }
+      rules.push({ state: state.trim(), ...rule });
+    }
+    return rules;
+  }
+
+  private parseDuration(value: string): number | null {
+    const match = DURATION_PATTERN.exec(value.trim());
+    if (!match) return null;
+    const seconds = Number(match[1]) * UNIT_SECONDS[match[2].toLowerCase()];
+    return seconds > 0 ? seconds : null;
+  }
+
+  private async getTracking(issueId: string): Promise<StaleTracking | null> {
+    const raw = await this.redis.get(this.trackingKey(issueId));
+    return raw ? (JSON.parse(raw) as StaleTracking) : null;
+  }
+
+  private intervalSeconds(): number {
+    return this.config.get<number>('STALE_CHECK_INTERVAL_MINUTES') * 60;
+  }
+
+  private rulesKey(chatId: number): string {
+    return `chat:${chatId}:stale_rules`;
+  }
+
+  private snoozeKey(issueId: string): string {
+    return `stale:snooze:${issueId}`;
+  }
+
+  private trackingKey(issueId: string): string {
+    return `stale:issue:${issueId}`;
+  }
+
+  private escapeHtml(str: string): string {
+    return str
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;');
+  }
+}
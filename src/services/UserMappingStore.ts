@@ -0,0 +1,155 @@
+import { Inject, Injectable, type OnModuleInit } from '@nestjs/common';
+import type Redis from 'ioredis';
+import {
+  findLinearUserByIdentifier,
+  getAllUserAliases,
+  USER_MAPPINGS,
+  type UserMapping,
+} from 'src/config/userMappings';
+
+const MAPPINGS_KEY = 'user_mappings';
+// Set once the hardcoded list has been copied, so removed people are not re-seeded
+const SEEDED_KEY = 'user_mappings:seeded';
+// Other replicas may edit mappings, so re-read Redis at most this often
+const CACHE_TTL_MS = 30 * 1000;
+
+/**
+ * Telegram <-> Linear user mappings, stored in Redis and editable at runtime.
+ * Reads are served from an in-memory copy so lookups stay synchronous.
+ */
+@Injectable()
+export default class UserMappingStore implements OnModuleInit {
+  private mappings: UserMapping[] = [...USER_MAPPINGS];
+  private lastLoaded = 0;
+
+  constructor(@Inject('REDIS') private readonly redis: Redis) {}
+
+  onModuleInit() {
+    // Do not hold up startup on Redis; the seed list is used until the first load
+    this.refresh(true).catch((err) => {
+      console.error('Failed to load user mappings from Redis:', err);
+    });
+  }
+
+  async refresh(force = false): Promise<void> {
+    if (!force && Date.now() - this.lastLoaded < CACHE_TTL_MS) return;
+
+    if (await this.redis.set(SEEDED_KEY, '1', 'NX')) {
+      for (const mapping of USER_MAPPINGS) {
+        await this.redis.hsetnx(
+          MAPPINGS_KEY,
+          this.keyFor(mapping.telegramUsername),
+          JSON.stringify(mapping),
+        );
+      }
+      console.log(`Seeded ${USER_MAPPINGS.length} user mappings into Redis`);
+    }
+
+    const raw = await this.redis.hvals(MAPPINGS_KEY);
+    this.mappings = raw
+      .map((entry) => {
+        try {
+          return JSON.parse(entry) as UserMapping;
+        } catch {
+          return null;
+        }
+      })
+      .filter((mapping): mapping is UserMapping => mapping !== null)
+      .sort((a, b) => a.linearName.localeCompare(b.linearName));
+    this.lastLoaded = Date.now();
+  }
+
+  all(): UserMapping[] {
+    return this.mappings;
+  }
+
+  findLinearUserByIdentifier(identifier: string): UserMapping | null {
+    return findLinearUserByIdentifier(this.mappings, identifier);
+  }
+
+  getAllUserAliases(): string[] {
+    return getAllUserAliases(this.mappings);
+  }
+
+  async add(mapping: UserMapping): Promise<void> {
+    await this.save(mapping);
+  }
+
+  /**
+   * Update the person matching `identifier`. Returns null when nobody matches.
+   */
+  async update(
+    identifier: string,
+    changes: Partial<Omit<UserMapping, 'aliases'>>,
+  ): Promise<UserMapping | null> {
+    await this.refresh(true);
+    const existing = this.findLinearUserByIdentifier(identifier);
+    if (!existing) return null;
+
+    const updated = { ...existing, ...changes };
+    if (updated.telegramUsername !== existing.telegramUsername) {
+      await this.redis.hdel(
+        MAPPINGS_KEY,
+        this.keyFor(existing.telegramUsername),
+      );
+    }
+    await this.save(updated);
+    return updated;
+  }
+
+  async remove(identifier: string): Promise<UserMapping | null> {
+    await this.refresh(true);
+    const existing = this.findLinearUserByIdentifier(identifier);
+    if (!existing) return null;
+
+    await this.redis.hdel(MAPPINGS_KEY, this.keyFor(existing.telegramUsername));
+    await this.refresh(true);
+    return existing;
+  }
+
+  async addAlias(
+    identifier: string,
+    alias: string,
+  ): Promise<UserMapping | null> {
+    await this.refresh(true);
+    const existing = this.findLinearUserByIdentifier(identifier);
+    if (!existing) return null;
+
+    const normalized = alias.toLowerCase().trim();
+    if (existing.aliases.includes(normalized)) return existing;
+
+    const updated = { ...existing, aliases: [...existing.aliases, normalized] };
+    await this.save(updated);
+    return updated;
+  }
+
+  async removeAlias(
+    identifier: string,
+    alias: string,
+  ): Promise<UserMapping | null> {
+    await this.refresh(true);
+    const existing = this.findLinearUserByIdentifier(identifier);
+    if (!existing) return null;
+
+    const normalized = alias.toLowerCase().trim();
+    const updated = {
+      ...existing,
+      aliases: existing.aliases.filter((a) => a.toLowerCase() !== normalized),
+    };
+    await this.save(updated);
+    return updated;
+  }
+
+  private async save(mapping: UserMapping): Promise<void> {
+    await this.redis.hset(
+      MAPPINGS_KEY,
+      this.keyFor(mapping.telegramUsername),
+      JSON.stringify(mapping),
+    );
+    await this.refresh(true);
+  }
+
+  private keyFor(telegramUsername: string): string {
+    return telegramUsername.replace('@', '').toLowerCase();
+  }
+}
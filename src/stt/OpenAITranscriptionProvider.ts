@@ -0,0 +1,45 @@
+import axios from 'axios';
+import type {
+  SpeechToTextProvider,
+  SpeechToTextProviderOptions,
+  TranscriptionRequest,
+} from './SpeechToTextProvider';
+
+/**
+ * Audio transcriptions API as served by OpenAI and compatible local Whisper servers
+ * (faster-whisper-server, whisper.cpp server, LocalAI...)
+ */
+export default class OpenAITranscriptionProvider
+  implements SpeechToTextProvider
+{
+  readonly name = 'openai';
+  readonly model: string;
+
+  constructor(private readonly options: SpeechToTextProviderOptions) {
+    this.model = options.model;
+  }
+
+  async transcribe(request: TranscriptionRequest): Promise<string | null> {
+    const form = new FormData();
+    form.append(
+      'file',
+      new Blob([new Uint8Array(request.audio)], { type: request.mimeType }),
+      request.fileName,
+    );
+    form.append('model', this.model);
+    form.append('response_format', 'json');
+    if (request.language) form.append('language', request.language);
+
+    const res = await axios.post<{ text?: string }>(
+      `${this.options.baseUrl.replace(/\/$/, '')}/audio/transcriptions`,
+      form,
+      {
+        headers: this.options.apiKey
+          ? { Authorization: `Bearer ${this.options.apiKey}` }
+          : {},
+      },
+    );
+
+    return res.data.text?.trim() || null;
+  }
+}
@@ -0,0 +1,24 @@
+export interface TranscriptionRequest {
+  audio: Buffer;
+  // Servers detect the audio format from the extension, e.g. "voice.ogg"
+  fileName: string;
+  mimeType: string;
+  // ISO-639-1 hint, detected from the audio when missing
+  language?: string;
+}
+
+/**
+ * A speech-to-text service the bot sends voice and video notes to.
+ * Implementations throw on transport or API errors and return null when nothing was said.
+ */
+export interface SpeechToTextProvider {
+  readonly name: string;
+  readonly model: string;
+  transcribe(request: TranscriptionRequest): Promise<string | null>;
+}
+
+export interface SpeechToTextProviderOptions {
+  baseUrl: string;
+  model: string;
+  apiKey: string;
+}
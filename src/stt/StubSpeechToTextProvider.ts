@@ -0,0 +1,18 @@
+import type { SpeechToTextProvider } from './SpeechToTextProvider';
+
+const DEFAULT_TRANSCRIPT = 'create a ticket about the voice note';
+
+/**
+ * Offline provider for local development and tests. Returns the same transcript for every
+ * recording, so a voice note can stand in for any text request.
+ */
+export default class StubSpeechToTextProvider implements SpeechToTextProvider {
+  readonly name = 'stub';
+  readonly model = 'stub';
+
+  constructor(private readonly transcript: string) {}
+
+  transcribe(): Promise<string | null> {
+    return Promise.resolve(this.transcript || DEFAULT_TRANSCRIPT);
+  }
+}
@@ -0,0 +1,49 @@
+import { Global, Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import type LinearTrackerBotConfig from 'src/config/LinearBotConfig';
+import OpenAITranscriptionProvider from './OpenAITranscriptionProvider';
+import type { SpeechToTextProvider } from './SpeechToTextProvider';
+import StubSpeechToTextProvider from './StubSpeechToTextProvider';
+
+const DEFAULTS = {
+  openai: { baseUrl: 'https://api.openai.com/v1', model: 'whisper-1' },
+};
+
+@Global()
+@Module({
+  providers: [
+    {
+      provide: 'STT_PROVIDER',
+      inject: [ConfigService],
+      // null when voice notes are turned off
+      useFactory: (
+        config: ConfigService<LinearTrackerBotConfig, true>,
+      ): SpeechToTextProvider | null => {
+        const kind =
+          config.get<LinearTrackerBotConfig['STT_PROVIDER']>('STT_PROVIDER');
+        if (kind === 'off') {
+          console.log('Speech-to-text provider: off');
+          return null;
+        }
+        if (kind === 'stub') {
+          console.log('Speech-to-text provider: stub');
+          return new StubSpeechToTextProvider(
+            config.get<string>('STT_STUB_TRANSCRIPT'),
+          );
+        }
+
+        const options = {
+          baseUrl: config.get<string>('STT_BASE_URL') || DEFAULTS[kind].baseUrl,
+          model: config.get<string>('STT_MODEL') || DEFAULTS[kind].model,
+          apiKey:
+            config.get<string>('STT_API_KEY') ||
+            config.get<string>('OPENAI_API_KEY'),
+        };
+        console.log(`Speech-to-text provider: ${kind} (${options.model})`);
+        return new OpenAITranscriptionProvider(options);
+      },
+    },
+  ],
+  exports: ['STT_PROVIDER'],
+})
+export class SttModule {}